@@ -0,0 +1,45 @@
+import { BackendKind, ManagedProcessConfig } from '../types.js';
+import { ProjectSession } from '../state.js';
+import { pm2Backend } from './pm2.js';
+import { nativeBackend } from './native.js';
+import { retireLegacyProcess, scopeBackend } from './scoped.js';
+import { ProcessBackend } from './types.js';
+
+export type { LogStream, ProcessBackend, ProcessInfo } from './types.js';
+export { pm2Backend, nativeBackend };
+
+const backends: Record<BackendKind, ProcessBackend> = {
+  pm2: pm2Backend,
+  native: nativeBackend
+};
+
+export function getBackend(kind: BackendKind): ProcessBackend {
+  return backends[kind];
+}
+
+// One scoped wrapper per backend and project, so callers can key maps by backend
+const scopedBackends = new Map<string, ProcessBackend>();
+// Registered processes already checked for a pre-namespacing entry, by "<backend>:<project key>/<name>"
+const legacyChecked = new Set<string>();
+
+/**
+ * Resolve the backend for a process: per-process setting first, then the
+ * project default, then PM2 when it is installed and the native supervisor
+ * otherwise. The result only sees (and names) processes of the session's project.
+ */
+export async function resolveBackend(
+  config: ManagedProcessConfig | undefined,
+  { project, state }: ProjectSession
+): Promise<ProcessBackend> {
+  const kind = config?.backend || state.defaultBackend || ((await pm2Backend.isAvailable()) ? 'pm2' : 'native');
+  const cacheKey = `${kind}:${project.key}`;
+  if (!scopedBackends.has(cacheKey)) {
+    scopedBackends.set(cacheKey, scopeBackend(getBackend(kind), project));
+  }
+  // Legacy entries must go before the process's first port check or start
+  if (config && state.managedProcesses[config.name] && !legacyChecked.has(`${cacheKey}/${config.name}`)) {
+    legacyChecked.add(`${cacheKey}/${config.name}`);
+    await retireLegacyProcess(getBackend(kind), project, config.name);
+  }
+  return scopedBackends.get(cacheKey)!;
+}
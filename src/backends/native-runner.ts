@@ -0,0 +1,92 @@
+/**
+ * Runner process for the native supervisor. Spawned detached by
+ * native.ts as `node native-runner.js [--input <socket>] <outLog> <errorLog> <command> [...args]`,
+ * it runs the real command, prefixes every output line with an ISO
+ * timestamp (the same shape as PM2's --time) and exits with the child's
+ * exit code or signal. With --input, the child's stdin stays open and is
+ * fed whatever is written to the Unix socket.
+ */
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+
+const argv = process.argv.slice(2);
+const inputSocket = argv[0] === '--input' ? argv.splice(0, 2)[1] : undefined;
+const [outPath, errorPath, command, ...args] = argv;
+
+const outLog = fs.createWriteStream(outPath, { flags: 'a' });
+const errorLog = fs.createWriteStream(errorPath, { flags: 'a' });
+
+function pipeWithTimestamps(source: NodeJS.ReadableStream, target: fs.WriteStream) {
+  let pending = '';
+  source.setEncoding('utf8');
+  source.on('data', (chunk: string) => {
+    const lines = (pending + chunk).split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      target.write(`${new Date().toISOString()}: ${line}\n`);
+    }
+  });
+  source.on('end', () => {
+    if (pending) {
+      target.write(`${new Date().toISOString()}: ${pending}\n`);
+    }
+  });
+}
+
+const child = spawn(command, args, {
+  stdio: [inputSocket ? 'pipe' : 'ignore', 'pipe', 'pipe']
+});
+
+let inputServer: net.Server | undefined;
+if (inputSocket) {
+  // The child may close its stdin early; input sent after that is dropped
+  child.stdin!.on('error', () => undefined);
+  inputServer = net.createServer(connection => {
+    connection.on('error', () => undefined);
+    connection.pipe(child.stdin!, { end: false });
+  });
+  inputServer.on('error', error => {
+    // The process still runs, it just cannot be sent input
+    errorLog.write(`${new Date().toISOString()}: Cannot accept input on ${inputSocket}: ${error.message}\n`);
+  });
+  fs.rmSync(inputSocket, { force: true });
+  inputServer.listen(inputSocket);
+}
+
+function closeInput() {
+  if (inputServer && inputSocket) {
+    inputServer.close();
+    fs.rmSync(inputSocket, { force: true });
+  }
+}
+
+pipeWithTimestamps(child.stdout!, outLog);
+pipeWithTimestamps(child.stderr!, errorLog);
+
+// Signals reach the whole process group; stay alive until the child is done
+for (const signal of ['SIGTERM', 'SIGINT', 'SIGHUP'] as const) {
+  process.on(signal, () => {
+    child.kill(signal);
+  });
+}
+
+child.on('error', error => {
+  closeInput();
+  errorLog.write(`${new Date().toISOString()}: Failed to start '${command}': ${error.message}\n`);
+  errorLog.end(() => process.exit(127));
+});
+
+child.on('close', (code, signal) => {
+  closeInput();
+  outLog.end();
+  errorLog.end(() => {
+    if (signal) {
+      // Re-raise so the supervisor sees the same termination signal
+      process.removeAllListeners(signal);
+      process.kill(process.pid, signal);
+    } else {
+      process.exit(code ?? 1);
+    }
+  });
+});
@@ -0,0 +1,459 @@
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import { ManagedProcessConfig } from '../types.js';
+import { tailFile } from '../logs.js';
+import { writeFileAtomic } from '../persistence.js';
+import { LogStream, ProcessBackend, ProcessInfo } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+// Root directory for PID records and log files of natively supervised processes
+export const NATIVE_HOME = process.env.THE_DEV_SERVER_HOME || path.join(os.homedir(), '.the-dev-server');
+
+export const RUNNER_PATH = fileURLToPath(new URL('./native-runner.js', import.meta.url));
+
+const STOP_TIMEOUT_MS = 5000;
+const AUTORESTART_DELAY_MS = 1000;
+
+/**
+ * Persisted record describing the last known run of a native process.
+ * Stored as JSON so status survives MCP restarts (children are detached).
+ */
+interface NativeProcessRecord {
+  name: string;
+  pid?: number;
+  status: 'online' | 'stopped' | 'errored';
+  command: string;
+  args: string[];
+  cwd?: string;
+  startedAt?: number;
+  stoppedAt?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  restarts: number;
+  inputSocket?: string; // Unix socket feeding the process's stdin (interactive processes)
+  stopRequested?: boolean; // Written before an intentional stop, so the exit is not taken for a crash
+}
+
+// Children spawned by this MCP session, used to observe exits as they happen
+const children = new Map<string, ChildProcess>();
+
+function getRecordPath(name: string): string {
+  return path.join(NATIVE_HOME, 'pids', `${name}.json`);
+}
+
+function getNativeLogPath(name: string, type: LogStream = 'out'): string {
+  const suffix = type === 'error' ? 'error.log' : 'out.log';
+  return path.join(NATIVE_HOME, 'logs', `${name}-${suffix}`);
+}
+
+/**
+ * Helper: stdin socket of an interactive process. Hashed because Unix socket
+ * paths are limited to about 100 characters.
+ */
+function getInputSocketPath(name: string): string {
+  const digest = createHash('sha1').update(name).digest('hex').slice(0, 16);
+  return path.join(NATIVE_HOME, 'input', `${digest}.sock`);
+}
+
+async function readRecord(name: string): Promise<NativeProcessRecord | null> {
+  try {
+    const data = await fs.readFile(getRecordPath(name), 'utf-8');
+    return JSON.parse(data) as NativeProcessRecord;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function writeRecord(record: NativeProcessRecord): Promise<void> {
+  const recordPath = getRecordPath(record.name);
+  await fs.mkdir(path.dirname(recordPath), { recursive: true });
+  await writeFileAtomic(recordPath, JSON.stringify(record, null, 2));
+}
+
+/**
+ * Helper: true while any process of the group led by `pid` is left
+ */
+function isGroupAlive(pid: number): boolean {
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === 'EPERM' || isAlive(pid);
+  }
+}
+
+async function waitForGroupExit(pid: number, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (isGroupAlive(pid) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+export function isAlive(pid: number | undefined): boolean {
+  if (!pid) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error?.code === 'EPERM';
+  }
+}
+
+/**
+ * Helper: send a signal to the whole process group (children are spawned
+ * detached, so the PID is also the group id). Falls back to the single PID.
+ */
+export function signalProcess(pid: number, signal: NodeJS.Signals) {
+  try {
+    process.kill(-pid, signal);
+  } catch (error) {
+    try {
+      process.kill(pid, signal);
+    } catch (innerError) {
+      // Already gone
+    }
+  }
+}
+
+// Kernel clock ticks per second for /proc/<pid>/stat times (USER_HZ is 100 on Linux)
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Helper: parse ps "time" ([[dd-]hh:]mm:ss[.cc]) into milliseconds
+ */
+function parseCpuTime(value: string): number {
+  const [days, clock] = value.includes('-') ? value.split('-') : ['0', value];
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Math.round((Number(days) * 86400 + seconds) * 1000);
+}
+
+/**
+ * Helper: cumulative CPU time of processes from /proc, or undefined where
+ * there is no /proc (macOS)
+ */
+async function readProcCpuTimeMs(pids: number[]): Promise<number | undefined> {
+  try {
+    await fs.access('/proc/self/stat');
+  } catch (error) {
+    return undefined;
+  }
+
+  let ticks = 0;
+  for (const pid of pids) {
+    try {
+      const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+      // Fields after the parenthesised command: state is [0], utime [11], stime [12]
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      ticks += Number(fields[11]) + Number(fields[12]);
+    } catch (error) {
+      // Process exited between ps and the read
+    }
+  }
+  return Math.round((ticks / CLOCK_TICKS_PER_SECOND) * 1000);
+}
+
+/**
+ * Helper: sum CPU, RSS and CPU time across the process group of a native
+ * process, leaving out the runner itself (it leads the group, so its PID is
+ * the PGID)
+ */
+async function sampleUsage(pid: number): Promise<{ cpu: number; memory: number; cpuTimeMs: number } | null> {
+  try {
+    const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,pgid=,pcpu=,rss=,time=']);
+    let cpu = 0;
+    let rssKb = 0;
+    let psCpuTimeMs = 0;
+    const members: number[] = [];
+    for (const line of stdout.split('\n')) {
+      const [processId, pgid, pcpu, rss, time] = line.trim().split(/\s+/);
+      if (Number(pgid) === pid && Number(processId) !== pid) {
+        members.push(Number(processId));
+        cpu += Number(pcpu) || 0;
+        rssKb += Number(rss) || 0;
+        psCpuTimeMs += time ? parseCpuTime(time) : 0;
+      }
+    }
+    if (members.length === 0) {
+      return null;
+    }
+    // ps reports whole seconds on Linux; /proc is precise enough for short sampling intervals
+    const cpuTimeMs = (await readProcCpuTimeMs(members)) ?? psCpuTimeMs;
+    return { cpu: Math.round(cpu * 10) / 10, memory: rssKb * 1024, cpuTimeMs };
+  } catch (error) {
+    return null;
+  }
+}
+
+function resolveCommand(config: ManagedProcessConfig): { command: string; args: string[] } {
+  const args = config.args || [];
+  if (config.interpreter) {
+    return { command: config.interpreter, args: [config.script, ...args] };
+  }
+  return { command: config.script, args };
+}
+
+/**
+ * Helper: spawn a detached runner that executes the command and appends its
+ * timestamped stdout/stderr to the log files
+ */
+async function spawnNativeProcess(
+  config: ManagedProcessConfig,
+  restarts: number,
+  previous?: NativeProcessRecord | null
+): Promise<void> {
+  const { command, args } = resolveCommand(config);
+  const outPath = getNativeLogPath(config.name, 'out');
+  const errPath = getNativeLogPath(config.name, 'error');
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
+  const inputSocket = config.interactive ? getInputSocketPath(config.name) : undefined;
+  if (inputSocket) {
+    await fs.mkdir(path.dirname(inputSocket), { recursive: true });
+  }
+
+  // The runner owns the log files (and the stdin socket) and timestamps each line
+  const inputArgs = inputSocket ? ['--input', inputSocket] : [];
+  const child = spawn(process.execPath, [RUNNER_PATH, ...inputArgs, outPath, errPath, command, ...args], {
+    cwd: config.cwd,
+    env: {
+      ...process.env,
+      ...(config.env || {})
+    },
+    detached: true,
+    stdio: 'ignore'
+  });
+
+  // Wait until the OS either started the runner or rejected it
+  await new Promise<void>((resolve, reject) => {
+    child.once('spawn', () => resolve());
+    child.once('error', reject);
+  });
+
+  child.unref();
+  children.set(config.name, child);
+
+  await writeRecord({
+    name: config.name,
+    pid: child.pid,
+    status: 'online',
+    command,
+    args,
+    cwd: config.cwd,
+    startedAt: Date.now(),
+    restarts,
+    inputSocket,
+    // Keep the previous exit so crash history survives an autorestart
+    exitCode: previous?.exitCode,
+    signal: previous?.signal,
+    stoppedAt: previous?.stoppedAt
+  });
+
+  child.once('exit', (code, signal) => {
+    void handleExit(config, child, code, signal);
+  });
+}
+
+async function handleExit(
+  config: ManagedProcessConfig,
+  child: ChildProcess,
+  code: number | null,
+  signal: NodeJS.Signals | null
+) {
+  if (children.get(config.name) === child) {
+    children.delete(config.name);
+  }
+
+  const record = await readRecord(config.name);
+  if (!record || record.pid !== child.pid) {
+    // A newer run already replaced this record
+    return;
+  }
+
+  const intentional = record.stopRequested === true;
+  record.status = intentional || code === 0 ? 'stopped' : 'errored';
+  record.exitCode = code;
+  record.signal = signal;
+  record.stoppedAt = Date.now();
+  await writeRecord(record);
+
+  if (!intentional && config.autorestart === true) {
+    setTimeout(async () => {
+      // Stopped (or started again) during the delay
+      const latest = await readRecord(config.name);
+      if (!latest || latest.pid !== record.pid || latest.stopRequested) {
+        return;
+      }
+      spawnNativeProcess(config, record.restarts + 1, record).catch(error => {
+        console.error(`Failed to autorestart '${config.name}':`, error);
+      });
+    }, AUTORESTART_DELAY_MS);
+  }
+}
+
+async function getNativeProcessInfo(name: string): Promise<ProcessInfo | null> {
+  const record = await readRecord(name);
+  if (!record) {
+    return null;
+  }
+
+  const alive = record.status === 'online' && isAlive(record.pid);
+  // The process died while no MCP session was watching it
+  const status = record.status === 'online' && !alive ? 'stopped' : record.status;
+  const usage = alive && record.pid ? await sampleUsage(record.pid) : null;
+
+  return {
+    name,
+    pid: alive ? record.pid : undefined,
+    status,
+    cpu: usage?.cpu,
+    memory: usage?.memory,
+    cpuTimeMs: usage?.cpuTimeMs,
+    startedAt: alive ? record.startedAt : undefined,
+    restarts: record.restarts,
+    lastExitCode: record.exitCode,
+    lastSignal: record.signal,
+    lastExitAt: record.stoppedAt,
+    cwd: record.cwd
+  };
+}
+
+async function startNativeProcess(config: ManagedProcessConfig) {
+  const record = await readRecord(config.name);
+
+  if (record?.status === 'online' && isAlive(record.pid)) {
+    // Process already running, don't create duplicate
+    return;
+  }
+
+  await spawnNativeProcess(config, record?.restarts || 0, record);
+}
+
+async function stopNativeProcess(name: string) {
+  const record = await readRecord(name);
+  if (!record) {
+    return;
+  }
+
+  // Marked in the record, not in memory: whichever session sees the exit
+  // (maybe only after this stop returned) must neither call it a crash nor
+  // autorestart the process
+  record.stopRequested = true;
+  await writeRecord(record);
+  if (record.pid && isAlive(record.pid)) {
+    signalProcess(record.pid, 'SIGTERM');
+    await waitForGroupExit(record.pid, STOP_TIMEOUT_MS);
+    if (isGroupAlive(record.pid)) {
+      signalProcess(record.pid, 'SIGKILL');
+      // Ports and files are only released once the whole group is gone
+      await waitForGroupExit(record.pid, STOP_TIMEOUT_MS);
+    }
+  }
+
+  // Re-read: the exit handler may already have recorded the exit
+  const latest = (await readRecord(name)) || record;
+  if (latest.status === 'online') {
+    latest.status = 'stopped';
+    latest.stoppedAt = Date.now();
+  }
+  await writeRecord(latest);
+}
+
+export const nativeBackend: ProcessBackend = {
+  kind: 'native',
+
+  async isAvailable() {
+    return true;
+  },
+
+  async list() {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(path.join(NATIVE_HOME, 'pids'));
+    } catch (error) {
+      return [];
+    }
+
+    const infos = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => getNativeProcessInfo(file.slice(0, -'.json'.length)))
+    );
+    return infos.filter((info): info is ProcessInfo => info !== null);
+  },
+
+  getInfo: getNativeProcessInfo,
+  start: startNativeProcess,
+  stop: stopNativeProcess,
+
+  async restart(name, config) {
+    if (!config) {
+      // Env and interpreter are not part of the record, so a stored config is required
+      throw new Error(`Process '${name}' must be registered to be restarted by the native supervisor`);
+    }
+    const record = await readRecord(name);
+    await stopNativeProcess(name);
+    await spawnNativeProcess(config, (record?.restarts || 0) + 1, await readRecord(name));
+  },
+
+  async delete(name) {
+    await stopNativeProcess(name);
+    await fs.rm(getRecordPath(name), { force: true });
+  },
+
+  async describe(name) {
+    const record = await readRecord(name);
+    if (!record) {
+      throw new Error(`Process '${name}' is not known to the native supervisor`);
+    }
+    const info = await getNativeProcessInfo(name);
+    return JSON.stringify(
+      {
+        ...record,
+        ...info,
+        outLog: getNativeLogPath(name, 'out'),
+        errorLog: getNativeLogPath(name, 'error')
+      },
+      null,
+      2
+    );
+  },
+
+  getLogPath: getNativeLogPath,
+
+  async readLogs(name, lines, type) {
+    if (type !== 'all') {
+      return tailFile(getNativeLogPath(name, type), lines);
+    }
+    const [out, error] = await Promise.all([
+      tailFile(getNativeLogPath(name, 'out'), lines),
+      tailFile(getNativeLogPath(name, 'error'), lines)
+    ]);
+    return [out, error].filter(Boolean).join('\n');
+  },
+
+  async sendInput(name, data) {
+    const record = await readRecord(name);
+    if (!record || record.status !== 'online' || !isAlive(record.pid)) {
+      throw new Error(`Process '${name}' is not running`);
+    }
+    if (!record.inputSocket) {
+      throw new Error(`Process '${name}' was started without stdin; set interactive: true and restart it`);
+    }
+    const socketPath = record.inputSocket;
+    await new Promise<void>((resolve, reject) => {
+      const connection = net.createConnection(socketPath, () => {
+        connection.end(data, () => resolve());
+      });
+      connection.once('error', error => reject(new Error(`Cannot reach the stdin of '${name}': ${error.message}`)));
+    });
+  }
+};
@@ -0,0 +1,250 @@
+import { execFile, ExecFileOptions } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as os from 'os';
+import { ManagedProcessConfig } from '../types.js';
+import { LogStream, ProcessBackend, ProcessInfo } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run the pm2 CLI with an argv array. No shell is involved, so names, scripts
+ * and args reach PM2 exactly as registered (spaces, quotes and all).
+ */
+export async function runPm2(args: string[], options: ExecFileOptions = {}) {
+  const execOptions: ExecFileOptions & { encoding: BufferEncoding } = {
+    ...options,
+    encoding: 'utf8' as BufferEncoding,
+    maxBuffer: 16 * 1024 * 1024,
+    env: {
+      ...process.env,
+      ...(options.env || {})
+    }
+  };
+
+  const { stdout } = await execFileAsync('pm2', args, execOptions);
+  return stdout as string;
+}
+
+/**
+ * Helper: read the raw `pm2 jlist` output
+ */
+export async function listPm2Processes(): Promise<any[]> {
+  const stdout = await runPm2(['jlist']);
+  return JSON.parse(stdout);
+}
+
+function toProcessInfo(p: any): ProcessInfo {
+  return {
+    name: p.name,
+    pid: p.pid,
+    status: p.pm2_env?.status || 'stopped',
+    cpu: p.monit?.cpu,
+    memory: p.monit?.memory,
+    startedAt: p.pm2_env?.pm_uptime,
+    restarts: p.pm2_env?.restart_time,
+    lastExitCode: p.pm2_env?.exit_code,
+    cwd: p.pm2_env?.pm_cwd
+  };
+}
+
+/**
+ * Helper: check if a process exists in PM2
+ */
+async function getPm2ProcessInfo(name: string): Promise<any | null> {
+  try {
+    const processes = await listPm2Processes();
+    return processes.find((p: any) => p.name === name) || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Helper: start process via PM2 using stored configuration
+ * Prevents duplicate instances by checking if process already exists
+ */
+async function startPm2Process(config: ManagedProcessConfig) {
+  // Check if process already exists in PM2
+  const existingProcess = await getPm2ProcessInfo(config.name);
+
+  if (existingProcess) {
+    const status = existingProcess.pm2_env?.status;
+
+    if (status === 'online') {
+      // Process already running, don't create duplicate
+      return;
+    } else if (status === 'stopped') {
+      // Process exists but stopped, restart it instead
+      await restartPm2Process(config.name, config);
+      return;
+    }
+    // If status is something else (errored, etc), delete and recreate
+    await deletePm2Process(config.name);
+  }
+
+  // Process doesn't exist, create it
+  // --time prefixes log lines with timestamps, which log search relies on
+  const args = ['start', config.script, '--name', config.name, '--time'];
+
+  if (config.interpreter) {
+    args.push('--interpreter', config.interpreter);
+  }
+  if (config.cwd) {
+    args.push('--cwd', config.cwd);
+  }
+  // Cluster workers have no stdin, so interactive processes run as a single fork
+  if (config.instances && config.instances > 0 && !config.interactive) {
+    args.push('-i', String(config.instances));
+  }
+  // Watching is done by this server (see watch.ts) so ignores and debounce apply
+  args.push('--no-watch');
+
+  // Disable autorestart by default unless explicitly enabled
+  // This allows us to see when servers crash instead of hiding failures
+  if (config.autorestart === true) {
+    // Autorestart explicitly enabled, PM2 default behavior
+  } else {
+    // Default: disable autorestart to surface issues
+    args.push('--no-autorestart');
+  }
+
+  if (config.args && config.args.length > 0) {
+    args.push('--', ...config.args);
+  }
+
+  await runPm2(args, {
+    cwd: config.cwd,
+    env: {
+      ...(config.env || {})
+    }
+  });
+}
+
+async function deletePm2Process(name: string) {
+  try {
+    await runPm2(['delete', name]);
+  } catch (error) {
+    // Ignore if process not found
+  }
+}
+
+async function stopPm2Process(name: string) {
+  try {
+    await runPm2(['stop', name]);
+  } catch (error) {
+    // Ignore if process not found
+  }
+}
+
+async function restartPm2Process(name: string, config?: ManagedProcessConfig) {
+  if (!config) {
+    await runPm2(['restart', name]);
+    return;
+  }
+  if (!(await getPm2ProcessInfo(name))) {
+    // Deleted (or never started through PM2), so there is nothing to restart
+    await startPm2Process(config);
+    return;
+  }
+  // --update-env takes the environment from this CLI call, so env file edits apply
+  await runPm2(['restart', name, '--update-env'], { env: { ...(config.env || {}) } });
+}
+
+/**
+ * Helper: Get the path to PM2 log files for a process. PM2 replaces every
+ * character outside [A-Za-z0-9.-] in the name (so "web@shop-1a2b3c" logs to
+ * "web-shop-1a2b3c-out.log").
+ */
+function getPm2LogPath(name: string, type: LogStream = 'out'): string {
+  const pm2Home = process.env.PM2_HOME || path.join(os.homedir(), '.pm2');
+  const suffix = type === 'error' ? 'error.log' : 'out.log';
+  return path.join(pm2Home, 'logs', `${name.replace(/[^A-Za-z0-9.-]/g, '-')}-${suffix}`);
+}
+
+let pm2Available: boolean | undefined;
+
+export const pm2Backend: ProcessBackend = {
+  kind: 'pm2',
+
+  async isAvailable() {
+    if (pm2Available === undefined) {
+      try {
+        await runPm2(['--version']);
+        pm2Available = true;
+      } catch (error) {
+        pm2Available = false;
+      }
+    }
+    return pm2Available;
+  },
+
+  async list() {
+    try {
+      const processes = await listPm2Processes();
+      return processes.map(toProcessInfo);
+    } catch (error) {
+      // Process manager not available
+      return [];
+    }
+  },
+
+  async getInfo(name) {
+    const info = await getPm2ProcessInfo(name);
+    return info ? toProcessInfo(info) : null;
+  },
+
+  start: startPm2Process,
+  stop: stopPm2Process,
+
+  async restart(name, config) {
+    await restartPm2Process(name, config);
+  },
+
+  delete: deletePm2Process,
+
+  async describe(name) {
+    return runPm2(['describe', name]);
+  },
+
+  getLogPath: getPm2LogPath,
+
+  async readLogs(name, lines, type) {
+    const args = ['logs', name, '--lines', String(lines), '--nostream'];
+    if (type === 'out') {
+      args.push('--out');
+    } else if (type === 'error') {
+      args.push('--err');
+    }
+
+    const rawLogs = await runPm2(args);
+
+    // Strip PM2 formatting and paths
+    return rawLogs
+      // Remove PM2 log file paths
+      .replace(/\/.*\.pm2\/logs\/.*\.log last \d+ lines:/g, '')
+      // Remove PM2 process ID prefixes (e.g., "10|example | ")
+      .replace(/^\s*\d+\|[^|]+\|\s*/gm, '')
+      // Remove [TAILING] messages
+      .replace(/\[TAILING\].*$/gm, '')
+      .trim();
+  },
+
+  async sendInput(name, data) {
+    const processInfo = await getPm2ProcessInfo(name);
+    if (!processInfo || processInfo.pm2_env?.status !== 'online') {
+      throw new Error(`Process '${name}' is not running`);
+    }
+    // `pm2 send` writes whole lines only (it appends the newline itself), so
+    // key presses and text without a trailing enter cannot be delivered as-is
+    if (!data.endsWith('\n')) {
+      throw new Error(
+        `PM2 can only send whole lines to '${name}': end the input with the enter key, ` +
+        `or switch the process to the native backend to send raw key presses.`
+      );
+    }
+    for (const line of data.slice(0, -1).split('\n')) {
+      await runPm2(['send', String(processInfo.pm_id), line]);
+    }
+  }
+};
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { ProjectContext, localName, namespacedName } from '../projects.js';
+import { ProcessBackend, ProcessInfo } from './types.js';
+
+/**
+ * Wrap a backend so a project only sees its own processes. PM2 names and
+ * native PID/log files are machine-global, so every name is suffixed with
+ * the project key on the way in and stripped again on the way out.
+ */
+export function scopeBackend(backend: ProcessBackend, project: ProjectContext): ProcessBackend {
+  const scoped = (name: string) => namespacedName(project, name);
+  const unscoped = (info: ProcessInfo): ProcessInfo => ({ ...info, name: localName(project, info.name) ?? info.name });
+
+  return {
+    kind: backend.kind,
+    isAvailable: () => backend.isAvailable(),
+
+    async list() {
+      return (await backend.list())
+        .filter(info => localName(project, info.name) !== null)
+        .map(unscoped);
+    },
+
+    async getInfo(name) {
+      const info = await backend.getInfo(scoped(name));
+      return info ? unscoped(info) : null;
+    },
+
+    // Processes without a cwd run from the project root, not the MCP's directory
+    start: config => backend.start({ ...config, name: scoped(config.name), cwd: config.cwd || project.root }),
+    stop: name => backend.stop(scoped(name)),
+    restart: (name, config) => backend.restart(
+      scoped(name),
+      config && { ...config, name: scoped(config.name), cwd: config.cwd || project.root }
+    ),
+    delete: name => backend.delete(scoped(name)),
+    describe: name => backend.describe(scoped(name)),
+    getLogPath: (name, type) => backend.getLogPath(scoped(name), type),
+    readLogs: (name, lines, type) => backend.readLogs(scoped(name), lines, type),
+    sendInput: (name, data) => backend.sendInput(scoped(name), data)
+  };
+}
+
+/**
+ * Remove a process left over from before namespacing: still running under
+ * its bare name from inside the project, it would keep holding the port its
+ * scoped successor needs. Bare-named processes started elsewhere (by hand,
+ * or by another project) are left alone.
+ */
+export async function retireLegacyProcess(backend: ProcessBackend, project: ProjectContext, name: string) {
+  const legacy = await backend.getInfo(name);
+  const relative = legacy?.cwd ? path.relative(project.root, legacy.cwd) : undefined;
+  if (relative !== undefined && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+    await backend.delete(name);
+  }
+}
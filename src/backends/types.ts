@@ -0,0 +1,41 @@
+import { BackendKind, ManagedProcessConfig } from '../types.js';
+
+export type LogStream = 'out' | 'error';
+
+/**
+ * Live snapshot of a supervised process as reported by its backend
+ */
+export interface ProcessInfo {
+  name: string;
+  pid?: number;
+  status: string; // online | stopped | errored | launching ...
+  cpu?: number; // Percent
+  memory?: number; // Bytes (RSS)
+  cpuTimeMs?: number; // Cumulative CPU time, when the backend can tell
+  startedAt?: number; // Epoch millis of the current run
+  restarts?: number;
+  lastExitCode?: number | null; // Exit of the previous run, kept across restarts
+  lastSignal?: string | null;
+  lastExitAt?: number; // Epoch millis
+  cwd?: string; // Working directory the process was started in
+}
+
+/**
+ * Contract every process supervisor implements. Tools only talk to this
+ * interface so a process can move between PM2 and the native supervisor
+ * without any tool noticing.
+ */
+export interface ProcessBackend {
+  readonly kind: BackendKind;
+  isAvailable(): Promise<boolean>;
+  list(): Promise<ProcessInfo[]>;
+  getInfo(name: string): Promise<ProcessInfo | null>;
+  start(config: ManagedProcessConfig): Promise<void>;
+  stop(name: string): Promise<void>;
+  restart(name: string, config?: ManagedProcessConfig): Promise<void>;
+  delete(name: string): Promise<void>;
+  describe(name: string): Promise<string>;
+  getLogPath(name: string, type: LogStream): string;
+  readLogs(name: string, lines: number, type: 'all' | LogStream): Promise<string>;
+  sendInput(name: string, data: string): Promise<void>; // Write to stdin of an interactive process
+}
@@ -0,0 +1,88 @@
+import { ManagedProcessConfig } from './types.js';
+
+type Registry = Record<string, ManagedProcessConfig>;
+
+export const DEFAULT_BULK_CONCURRENCY = 4;
+
+export interface BulkResult {
+  name: string;
+  success: boolean;
+  status?: string;
+  error?: string;
+}
+
+/**
+ * Helper: run `fn` over items with at most `limit` calls in flight,
+ * preserving input order in the results
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Split a set of processes into waves that can run in parallel.
+ * - 'dependencies': a process lands after every dependency in the set (start)
+ * - 'dependents':   a process lands after every dependent in the set (stop)
+ */
+export function groupIntoLevels(
+  registry: Registry,
+  names: string[],
+  direction: 'dependencies' | 'dependents'
+): string[][] {
+  const selected = new Set(names);
+  const levels = new Map<string, number>();
+
+  const predecessors = (name: string): string[] =>
+    direction === 'dependencies'
+      ? (registry[name]?.dependsOn || []).filter(dep => selected.has(dep))
+      : names.filter(other => registry[other]?.dependsOn?.includes(name));
+
+  const levelOf = (name: string, visiting: Set<string>): number => {
+    const known = levels.get(name);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(name)) {
+      throw new Error(`Dependency cycle detected at '${name}'`);
+    }
+    visiting.add(name);
+    const level = Math.max(-1, ...predecessors(name).map(other => levelOf(other, visiting))) + 1;
+    visiting.delete(name);
+    levels.set(name, level);
+    return level;
+  };
+
+  const waves: string[][] = [];
+  for (const name of names) {
+    const level = levelOf(name, new Set());
+    (waves[level] ||= []).push(name);
+  }
+  return waves.filter(Boolean);
+}
+
+/**
+ * Names of registered processes in a group, or every registered process
+ * when no group is given
+ */
+export function selectProcesses(registry: Registry, group?: string): string[] {
+  return Object.values(registry)
+    .filter(config => group === undefined || config.groups?.includes(group))
+    .map(config => config.name);
+}
@@ -0,0 +1,105 @@
+import { ManagedProcessConfig } from './types.js';
+
+type Registry = Record<string, ManagedProcessConfig>;
+
+/**
+ * Reject dependency lists that name unregistered processes or form a cycle.
+ * `registry` must already contain the candidate config.
+ */
+export function validateDependencies(registry: Registry, name: string): void {
+  const config = registry[name];
+  const unknown = (config?.dependsOn || []).filter(dep => !registry[dep]);
+  if (unknown.length > 0) {
+    throw new Error(`Process '${name}' depends on unregistered process(es): ${unknown.join(', ')}`);
+  }
+  if ((config?.dependsOn || []).includes(name)) {
+    throw new Error(`Process '${name}' cannot depend on itself`);
+  }
+
+  // Depth-first walk from the candidate; reaching a node already on the path is a cycle
+  const path: string[] = [];
+  const visit = (current: string) => {
+    const index = path.indexOf(current);
+    if (index !== -1) {
+      throw new Error(`Dependency cycle detected: ${[...path.slice(index), current].join(' -> ')}`);
+    }
+    path.push(current);
+    for (const dep of registry[current]?.dependsOn || []) {
+      visit(dep);
+    }
+    path.pop();
+  };
+  visit(name);
+}
+
+/**
+ * Reject unregistering processes that others still list in their dependsOn,
+ * naming those dependents. Processes removed together may depend on each other.
+ */
+export function assertNoDependents(registry: Registry, names: string[]): void {
+  for (const name of names) {
+    const dependents = Object.values(registry)
+      .filter(config => !names.includes(config.name) && config.dependsOn?.includes(name))
+      .map(config => config.name);
+    if (dependents.length > 0) {
+      throw new Error(
+        `Process '${name}' is still a dependency of ${dependents.join(', ')}. ` +
+        `Remove it from their dependsOn or unregister them first.`
+      );
+    }
+  }
+}
+
+/**
+ * Processes to start for `name`, dependencies first and `name` last
+ */
+export function getStartOrder(registry: Registry, name: string): string[] {
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (current: string) => {
+    if (order.includes(current)) {
+      return;
+    }
+    if (visiting.has(current)) {
+      throw new Error(`Dependency cycle detected at '${current}'`);
+    }
+    if (!registry[current]) {
+      throw new Error(`Process '${current}' is not registered. Use register-managed-process first.`);
+    }
+    visiting.add(current);
+    for (const dep of registry[current].dependsOn || []) {
+      visit(dep);
+    }
+    visiting.delete(current);
+    order.push(current);
+  };
+  visit(name);
+  return order;
+}
+
+/**
+ * Processes to stop for `name`, transitive dependents first and `name` last
+ */
+export function getStopOrder(registry: Registry, name: string): string[] {
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (current: string) => {
+    if (order.includes(current)) {
+      return;
+    }
+    if (visiting.has(current)) {
+      throw new Error(`Dependency cycle detected at '${current}'`);
+    }
+    const dependents = Object.values(registry)
+      .filter(config => config.dependsOn?.includes(current))
+      .map(config => config.name);
+    visiting.add(current);
+    for (const dependent of dependents) {
+      visit(dependent);
+    }
+    visiting.delete(current);
+    order.push(current);
+  };
+  visit(name);
+  return order;
+}
@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DevServerState, ManagedProcessConfig } from './types.js';
+import { writeFileAtomic } from './persistence.js';
+import { isSensitiveKey } from './redaction.js';
+import { declaredProcessSchema, processNameSchema } from './schemas.js';
+
+// Machine-specific fields that stay in the local state file
+export const RUNTIME_FIELDS = ['logOffsets', 'rotatedLogBytes', 'assignedPort', 'endpoint', 'history', 'limitBreaches'] as const;
+type RuntimeField = typeof RUNTIME_FIELDS[number];
+
+export type DeclaredProcess = Omit<ManagedProcessConfig, 'name' | RuntimeField>;
+
+/**
+ * devserver.config.json: the checked-in registry shared by the team.
+ * Paths inside are relative to the file's folder.
+ */
+export interface ProjectDescriptor {
+  processes: Record<string, DeclaredProcess>;
+}
+
+export interface DescriptorMergeResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+/**
+ * Read and validate the descriptor. Returns null when there is none; a
+ * malformed file throws so it is never silently ignored by the tools.
+ */
+export async function readDescriptor(file: string): Promise<ProjectDescriptor | null> {
+  let data: string;
+  try {
+    data = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    throw new Error(`${path.basename(file)} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed.processes !== 'object' || Array.isArray(parsed.processes)) {
+    throw new Error(`${path.basename(file)} must contain a "processes" object keyed by process name`);
+  }
+  // Entries are checked like register-managed-process input, so nothing
+  // the tools would refuse can reach the registry through the file
+  const processes: Record<string, DeclaredProcess> = {};
+  for (const [name, declared] of Object.entries<unknown>(parsed.processes)) {
+    if (!processNameSchema.safeParse(name).success) {
+      throw new Error(`${path.basename(file)}: invalid process name '${name}'`);
+    }
+    const entry = declaredProcessSchema.safeParse(declared);
+    if (!entry.success) {
+      const issues = entry.error.issues
+        .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+        .join('; ');
+      throw new Error(`${path.basename(file)}: process '${name}' is invalid (${issues})`);
+    }
+    processes[name] = entry.data;
+  }
+  return { processes };
+}
+
+export async function writeDescriptor(descriptor: ProjectDescriptor, file: string): Promise<void> {
+  await writeFileAtomic(file, `${JSON.stringify(descriptor, null, 2)}\n`);
+}
+
+/**
+ * Helper: the shareable part of a registration, with cwd made relative to
+ * the descriptor folder (paths outside the project stay absolute). Env is
+ * left out unless asked for, and sensitive keys never leave the machine.
+ */
+export function toDeclared(config: ManagedProcessConfig, file: string, includeEnv = false): DeclaredProcess {
+  const declared: Record<string, unknown> = { ...config };
+  delete declared.name;
+  for (const field of RUNTIME_FIELDS) {
+    delete declared[field];
+  }
+  const env = Object.entries(config.env || {})
+    .filter(([key]) => !isSensitiveKey(key, config.redactionAllowlist));
+  if (includeEnv && env.length > 0) {
+    declared.env = Object.fromEntries(env);
+  } else {
+    delete declared.env;
+  }
+
+  if (config.cwd) {
+    const relative = path.relative(path.dirname(file), path.resolve(config.cwd));
+    declared.cwd = relative.startsWith('..') || path.isAbsolute(relative) ? config.cwd : relative || '.';
+  }
+  return declared as DeclaredProcess;
+}
+
+function fromDeclared(
+  name: string,
+  declared: DeclaredProcess,
+  runtime: ManagedProcessConfig | undefined,
+  file: string
+): ManagedProcessConfig {
+  const config: ManagedProcessConfig = {
+    ...declared,
+    name,
+    cwd: declared.cwd ? path.resolve(path.dirname(file), declared.cwd) : undefined
+  };
+  if (runtime) {
+    for (const field of RUNTIME_FIELDS) {
+      copyField(config, runtime, field);
+    }
+  }
+  return config;
+}
+
+function copyField<K extends RuntimeField>(target: ManagedProcessConfig, source: ManagedProcessConfig, field: K): void {
+  if (source[field] !== undefined) {
+    target[field] = source[field];
+  }
+}
+
+function fingerprint(declared: DeclaredProcess): string {
+  return JSON.stringify(declared);
+}
+
+/**
+ * Mark descriptor entries as applied without touching the registrations, so
+ * the local values (including env the file leaves out) keep winning until
+ * the entries change in the file
+ */
+export function markDescriptorSynced(state: DevServerState, descriptor: ProjectDescriptor, names: string[]): void {
+  const synced = state.descriptorSync || {};
+  for (const name of names) {
+    synced[name] = fingerprint(descriptor.processes[name]);
+  }
+  state.descriptorSync = synced;
+}
+
+/**
+ * Apply descriptor entries to the local registry. Local state wins while a
+ * descriptor entry is unchanged since it was last applied (so local edits
+ * and deletions stick); a changed entry replaces the declared fields and
+ * keeps the runtime ones. Entries dropped from the descriptor are removed.
+ * `force` applies every entry regardless of local changes.
+ */
+export function mergeDescriptor(
+  state: DevServerState,
+  descriptor: ProjectDescriptor,
+  file: string,
+  options: { force?: boolean; names?: string[] } = {}
+): DescriptorMergeResult {
+  const synced = state.descriptorSync || {};
+  const result: DescriptorMergeResult = { added: [], updated: [], removed: [] };
+
+  for (const [name, declared] of Object.entries(descriptor.processes)) {
+    if (options.names && !options.names.includes(name)) {
+      continue;
+    }
+    const print = fingerprint(declared);
+    const local = state.managedProcesses[name];
+    if (!options.force && synced[name] === print) {
+      continue;
+    }
+    state.managedProcesses[name] = fromDeclared(name, declared, local, file);
+    synced[name] = print;
+    (local ? result.updated : result.added).push(name);
+  }
+
+  if (!options.names) {
+    for (const name of Object.keys(synced)) {
+      if (!descriptor.processes[name]) {
+        delete synced[name];
+        if (state.managedProcesses[name]) {
+          delete state.managedProcesses[name];
+          result.removed.push(name);
+        }
+      }
+    }
+  }
+
+  state.descriptorSync = synced;
+  return result;
+}
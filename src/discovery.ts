@@ -0,0 +1,460 @@
+import { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ManagedProcessConfig } from './types.js';
+
+export type DiscoverySource = 'package.json' | 'Procfile' | 'manage.py' | 'uvicorn';
+
+/**
+ * A dev server inferred from the project tree, ready to be registered
+ */
+export interface DiscoveredServer {
+  config: ManagedProcessConfig;
+  source: DiscoverySource;
+  sourceFile: string; // Relative to the scanned root
+  command: string; // The command line as written in the source file
+  framework?: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export const DEFAULT_DISCOVERY_DEPTH = 4;
+
+const IGNORED_DIRS = new Set([
+  'node_modules', '.git', '.hg', '.svn', 'dist', 'build', 'out', 'coverage', '.next', '.nuxt',
+  '.svelte-kit', '.turbo', '.cache', '.venv', 'venv', 'env', '__pycache__', 'site-packages', 'vendor', 'target'
+]);
+
+// Package scripts that usually run a dev server, best first
+const DEV_SCRIPT_NAMES = ['dev', 'develop', 'start:dev', 'dev:server', 'serve', 'start'];
+const DEV_SCRIPT_PATTERN = /^(dev|develop|serve|start)(:|$)/;
+// Scripts that only rebuild on change, they never serve anything
+const BUILD_WATCH_PATTERN = /^(tsc|rollup|tsup|babel|esbuild|webpack(?! serve))\b.*(-w\b|--watch)/;
+// Root scripts that fan out to workspace packages, which are discovered on their own
+const ORCHESTRATOR_PATTERN = /\b(turbo|nx|lerna|concurrently|npm-run-all|run-p|wireit)\b|\b(pnpm|yarn|npm)\b.*(-r\b|--recursive|--filter|workspaces)/;
+
+interface FrameworkRule {
+  name: string;
+  command: RegExp;
+  configFiles?: RegExp;
+  defaultPort?: number;
+}
+
+const FRAMEWORKS: FrameworkRule[] = [
+  { name: 'next', command: /\bnext\b(\s+dev)?/, configFiles: /^next\.config\.(js|mjs|cjs|ts)$/, defaultPort: 3000 },
+  { name: 'nuxt', command: /\bnuxi?\b/, configFiles: /^nuxt\.config\.(js|mjs|ts)$/, defaultPort: 3000 },
+  { name: 'astro', command: /\bastro\b/, configFiles: /^astro\.config\.(js|mjs|ts)$/, defaultPort: 4321 },
+  { name: 'remix', command: /\bremix\b/, configFiles: /^remix\.config\.(js|mjs)$/, defaultPort: 3000 },
+  { name: 'sveltekit', command: /\bsvelte-kit\b/, configFiles: /^svelte\.config\.(js|mjs)$/, defaultPort: 5173 },
+  { name: 'angular', command: /\bng\s+serve\b/, configFiles: /^angular\.json$/, defaultPort: 4200 },
+  { name: 'gatsby', command: /\bgatsby\s+develop\b/, configFiles: /^gatsby-config\.(js|ts)$/, defaultPort: 8000 },
+  { name: 'vite', command: /\bvite\b/, configFiles: /^vite\.config\.(js|mjs|cjs|ts|mts)$/, defaultPort: 5173 },
+  { name: 'create-react-app', command: /\breact-scripts\s+start\b/, defaultPort: 3000 },
+  { name: 'webpack-dev-server', command: /\bwebpack(-dev-server|\s+serve)\b/, defaultPort: 8080 },
+  { name: 'storybook', command: /\b(storybook\s+dev|start-storybook)\b/, defaultPort: 6006 },
+  { name: 'node', command: /\b(nodemon|ts-node-dev|tsx\s+watch|node\s+--watch|node|ts-node|tsx)\b/ }
+];
+
+interface ScannedDir {
+  dir: string;
+  files: string[];
+}
+
+/**
+ * Helper: list directories under `root` (depth-limited, skipping dependency
+ * and build output folders) together with the files each one contains
+ */
+async function scanTree(root: string, maxDepth: number): Promise<ScannedDir[]> {
+  const result: ScannedDir[] = [];
+  const walk = async (dir: string, depth: number) => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+    result.push({ dir, files: entries.filter(entry => entry.isFile()).map(entry => entry.name) });
+    if (depth >= maxDepth) {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+        await walk(path.join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+  await walk(root, 0);
+  return result;
+}
+
+async function readJson(filePath: string): Promise<any | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Helper: expand one workspace pattern ("apps/*", "packages/**", "tools/cli")
+ * into directories that exist
+ */
+async function expandWorkspacePattern(root: string, pattern: string): Promise<string[]> {
+  let dirs = [root];
+  for (const segment of pattern.replace(/\/+$/, '').split('/').filter(part => part && part !== '.')) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (segment === '**') {
+        next.push(dir, ...(await scanTree(dir, 3)).map(scanned => scanned.dir).filter(sub => sub !== dir));
+        continue;
+      }
+      if (!segment.includes('*')) {
+        next.push(path.join(dir, segment));
+        continue;
+      }
+      const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+      try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        next.push(...entries
+          .filter(entry => entry.isDirectory() && !IGNORED_DIRS.has(entry.name) && matcher.test(entry.name))
+          .map(entry => path.join(dir, entry.name)));
+      } catch (error) {
+        // Pattern points at a missing directory
+      }
+    }
+    dirs = next;
+  }
+  return dirs;
+}
+
+/**
+ * Helper: workspace package directories declared by npm/yarn `workspaces`,
+ * pnpm-workspace.yaml or lerna.json
+ */
+async function findWorkspaceDirs(root: string, rootPackage: any): Promise<string[]> {
+  const patterns: string[] = [];
+  const workspaces = rootPackage?.workspaces;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...workspaces);
+  } else if (Array.isArray(workspaces?.packages)) {
+    patterns.push(...workspaces.packages);
+  }
+
+  const pnpmWorkspace = await readText(path.join(root, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace) {
+    let inPackages = false;
+    for (const line of pnpmWorkspace.split('\n')) {
+      if (/^\S/.test(line)) {
+        inPackages = /^packages\s*:/.test(line);
+        continue;
+      }
+      const match = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+      if (inPackages && match) {
+        patterns.push(match[1]);
+      }
+    }
+  }
+
+  const lerna = await readJson(path.join(root, 'lerna.json'));
+  if (Array.isArray(lerna?.packages)) {
+    patterns.push(...lerna.packages);
+  }
+
+  const excluded = new Set<string>();
+  const included: string[] = [];
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string') {
+      continue;
+    }
+    if (pattern.startsWith('!')) {
+      (await expandWorkspacePattern(root, pattern.slice(1))).forEach(dir => excluded.add(dir));
+    } else {
+      included.push(...(await expandWorkspacePattern(root, pattern)));
+    }
+  }
+  return included.filter(dir => !excluded.has(dir));
+}
+
+/**
+ * Helper: package manager used to run scripts, from lockfiles in the package
+ * or any parent up to the root, then the root `packageManager` field
+ */
+async function detectPackageManager(dir: string, root: string, rootPackage: any): Promise<string> {
+  const lockfiles: Array<[string, string]> = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm']
+  ];
+  for (let current = dir; ; current = path.dirname(current)) {
+    for (const [file, manager] of lockfiles) {
+      try {
+        await fs.access(path.join(current, file));
+        return manager;
+      } catch (error) {
+        // Not this one
+      }
+    }
+    if (current === root || path.dirname(current) === current || !current.startsWith(root)) {
+      break;
+    }
+  }
+  const declared = typeof rootPackage?.packageManager === 'string' ? rootPackage.packageManager.split('@')[0] : '';
+  return ['pnpm', 'yarn', 'bun'].includes(declared) ? declared : 'npm';
+}
+
+/**
+ * Helper: port passed on a command line ("-p 4000", "--port=4000", "PORT=4000")
+ */
+function portFromCommand(command: string): number | undefined {
+  const match = command.match(/(?:--port[= ]|-p\s+|\bPORT=)(\d{2,5})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function toProcessName(value: string): string {
+  const name = value
+    .replace(/^@[^/]+\//, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^[^a-zA-Z0-9]+|-+$/g, '')
+    .slice(0, 48); // Leaves room for the suffixes added below
+  return name || 'server';
+}
+
+function pickDevScript(scripts: Record<string, string>): string | undefined {
+  const candidates = [
+    ...DEV_SCRIPT_NAMES.filter(name => scripts[name]),
+    ...Object.keys(scripts).filter(name => DEV_SCRIPT_PATTERN.test(name))
+  ];
+  return candidates.find(name => {
+    const command = scripts[name];
+    return typeof command === 'string' && !BUILD_WATCH_PATTERN.test(command) && !ORCHESTRATOR_PATTERN.test(command);
+  });
+}
+
+async function discoverPackage(
+  scanned: ScannedDir,
+  root: string,
+  rootPackage: any
+): Promise<DiscoveredServer | null> {
+  const pkg = await readJson(path.join(scanned.dir, 'package.json'));
+  const scripts: Record<string, string> = pkg?.scripts || {};
+  const scriptName = pickDevScript(scripts);
+  if (!scriptName) {
+    return null;
+  }
+
+  const command = scripts[scriptName];
+  const framework = FRAMEWORKS.find(rule => rule.command.test(command));
+  const hasConfigFile = framework?.configFiles
+    ? scanned.files.some(file => framework.configFiles!.test(file))
+    : false;
+
+  let port = portFromCommand(command);
+  if (!port && framework?.name === 'vite') {
+    const viteConfig = scanned.files.find(file => framework.configFiles!.test(file));
+    const source = viteConfig ? await readText(path.join(scanned.dir, viteConfig)) : null;
+    const match = source?.match(/\bport\s*:\s*(\d{2,5})\b/);
+    port = match ? Number(match[1]) : undefined;
+  }
+  port = port ?? framework?.defaultPort;
+
+  // A known framework with its config file beats a generic "dev" script;
+  // a bare "start" is often the production server
+  let confidence: DiscoveredServer['confidence'] = 'medium';
+  if (hasConfigFile) {
+    confidence = 'high';
+  } else if (scriptName === 'start' && (!framework || framework.name === 'node')) {
+    confidence = 'low';
+  }
+
+  const manager = await detectPackageManager(scanned.dir, root, rootPackage);
+  const relativeDir = path.relative(root, scanned.dir);
+  return {
+    config: {
+      name: toProcessName(pkg.name || path.basename(scanned.dir)),
+      script: manager,
+      args: ['run', scriptName],
+      cwd: scanned.dir,
+      port
+    },
+    source: 'package.json',
+    sourceFile: path.join(relativeDir, 'package.json'),
+    command,
+    framework: framework?.name,
+    confidence
+  };
+}
+
+/**
+ * Helper: split a Procfile command into argv, honouring simple quotes
+ */
+function splitCommand(command: string): string[] {
+  const parts = command.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+  return parts.map(part => part.replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+async function discoverProcfile(scanned: ScannedDir, root: string): Promise<DiscoveredServer[]> {
+  const procfile = await readText(path.join(scanned.dir, 'Procfile'));
+  if (!procfile) {
+    return [];
+  }
+
+  const found: DiscoveredServer[] = [];
+  const prefix = scanned.dir === root ? '' : `${toProcessName(path.basename(scanned.dir))}-`;
+  for (const line of procfile.split('\n')) {
+    const match = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.+)$/);
+    if (!match || match[1] === 'release') {
+      continue;
+    }
+    const [, processType, command] = match;
+    // Foreman/honcho hand "web" its port through $PORT, 5000 by default
+    const port = portFromCommand(command) ?? (processType === 'web' ? 5000 : undefined);
+    const [script, ...args] = splitCommand(command.replace(/\$\{?PORT\}?/g, port ? String(port) : '$PORT'));
+    found.push({
+      config: {
+        name: `${prefix}${processType}`,
+        script,
+        args,
+        cwd: scanned.dir,
+        env: port ? { PORT: String(port) } : undefined,
+        port
+      },
+      source: 'Procfile',
+      sourceFile: path.join(path.relative(root, scanned.dir), 'Procfile'),
+      command,
+      confidence: processType === 'web' ? 'high' : 'medium'
+    });
+  }
+  return found;
+}
+
+/**
+ * Helper: Python from a project virtualenv when there is one
+ */
+async function findVirtualenvBinary(dir: string, root: string, binary: string): Promise<string | undefined> {
+  for (let current = dir; current.startsWith(root); current = path.dirname(current)) {
+    for (const venv of ['.venv', 'venv', 'env']) {
+      const candidate = path.join(current, venv, 'bin', binary);
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch (error) {
+        // No virtualenv here
+      }
+    }
+    if (current === root || path.dirname(current) === current) {
+      break;
+    }
+  }
+  return undefined;
+}
+
+async function discoverPython(scanned: ScannedDir, root: string): Promise<DiscoveredServer[]> {
+  const found: DiscoveredServer[] = [];
+  const relativeDir = path.relative(root, scanned.dir);
+  const namePrefix = scanned.dir === root ? '' : `${toProcessName(path.basename(scanned.dir))}-`;
+
+  if (scanned.files.includes('manage.py')) {
+    const python = (await findVirtualenvBinary(scanned.dir, root, 'python')) || 'python3';
+    found.push({
+      config: {
+        name: `${namePrefix}django`,
+        script: 'manage.py',
+        interpreter: python,
+        args: ['runserver', '8000'],
+        cwd: scanned.dir,
+        port: 8000
+      },
+      source: 'manage.py',
+      sourceFile: path.join(relativeDir, 'manage.py'),
+      command: 'python manage.py runserver',
+      framework: 'django',
+      confidence: 'high'
+    });
+  }
+
+  // ASGI apps: "app = FastAPI()" / "app = Starlette()" served by uvicorn
+  for (const file of scanned.files.filter(name => /^(main|app|asgi|server|api)\.py$/.test(name))) {
+    const source = await readText(path.join(scanned.dir, file));
+    const match = source?.match(/^(\w+)\s*(?::\s*\w+\s*)?=\s*(FastAPI|Starlette|Quart)\(/m);
+    if (!match) {
+      continue;
+    }
+    const target = `${file.slice(0, -'.py'.length)}:${match[1]}`;
+    const uvicorn = (await findVirtualenvBinary(scanned.dir, root, 'uvicorn')) || 'uvicorn';
+    found.push({
+      config: {
+        name: `${namePrefix}${toProcessName(file.slice(0, -'.py'.length))}`,
+        script: uvicorn,
+        args: [target, '--reload', '--port', '8000'],
+        cwd: scanned.dir,
+        port: 8000
+      },
+      source: 'uvicorn',
+      sourceFile: path.join(relativeDir, file),
+      command: `uvicorn ${target} --reload`,
+      framework: match[2].toLowerCase(),
+      confidence: source!.includes('uvicorn') ? 'high' : 'medium'
+    });
+  }
+  return found;
+}
+
+/**
+ * Scan a project tree for dev servers: package.json dev scripts (including
+ * workspace packages), Procfile entries, Django manage.py and uvicorn apps.
+ * Candidate names are unique within the result.
+ */
+export async function discoverDevServers(
+  root: string,
+  maxDepth = DEFAULT_DISCOVERY_DEPTH
+): Promise<DiscoveredServer[]> {
+  const rootPackage = await readJson(path.join(root, 'package.json'));
+  const scannedDirs = await scanTree(root, maxDepth);
+
+  // Workspace packages can live deeper than the scan depth
+  const known = new Set(scannedDirs.map(scanned => scanned.dir));
+  for (const dir of await findWorkspaceDirs(root, rootPackage)) {
+    if (!known.has(dir)) {
+      known.add(dir);
+      try {
+        scannedDirs.push({ dir, files: await fs.readdir(dir) });
+      } catch (error) {
+        // Declared but missing
+      }
+    }
+  }
+
+  const found: DiscoveredServer[] = [];
+  for (const scanned of scannedDirs) {
+    if (scanned.files.includes('package.json')) {
+      const candidate = await discoverPackage(scanned, root, rootPackage);
+      if (candidate) {
+        found.push(candidate);
+      }
+    }
+    if (scanned.files.includes('Procfile')) {
+      found.push(...(await discoverProcfile(scanned, root)));
+    }
+    found.push(...(await discoverPython(scanned, root)));
+  }
+
+  // Same package names in different folders get a numeric suffix
+  const used = new Map<string, number>();
+  for (const candidate of found) {
+    const count = used.get(candidate.config.name) || 0;
+    used.set(candidate.config.name, count + 1);
+    if (count > 0) {
+      candidate.config.name = `${candidate.config.name}-${count + 1}`;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,45 @@
+import { ManagedProcessConfig, ProcessEndpoint } from './types.js';
+import { ReadinessResult } from './readiness.js';
+import { getDeclaredPort } from './ports.js';
+import { getUrlPort } from './urls.js';
+
+/**
+ * Work out where a just-started server lives. Log output wins because dev
+ * servers (Vite, Next.js) silently move to another port when theirs is busy;
+ * a passing readiness probe comes next, then the declared port.
+ */
+export function detectEndpoint(runConfig: ManagedProcessConfig, readiness: ReadinessResult): ProcessEndpoint | undefined {
+  const detectedAt = new Date().toISOString();
+
+  if (readiness.urls.length > 0) {
+    return {
+      urls: readiness.urls,
+      port: getUrlPort(readiness.urls[0]),
+      source: 'log',
+      detectedAt
+    };
+  }
+
+  const probe = runConfig.readiness;
+  if (readiness.probed && probe && probe.type !== 'log') {
+    const url = probe.type === 'http' ? probe.url : `http://${probe.host || 'localhost'}:${probe.port}`;
+    return {
+      urls: [url],
+      port: probe.type === 'tcp' ? probe.port : getUrlPort(probe.url),
+      source: 'probe',
+      detectedAt
+    };
+  }
+
+  const port = getDeclaredPort(runConfig);
+  if (port) {
+    return {
+      urls: [`http://localhost:${port}`],
+      port,
+      source: 'config',
+      detectedAt
+    };
+  }
+
+  return undefined;
+}
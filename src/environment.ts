@@ -0,0 +1,240 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ManagedProcessConfig } from './types.js';
+import { getDeclaredPort } from './ports.js';
+
+// ${VAR}, ${VAR:-fallback} and ${processes.<name>.<field>}
+const REFERENCE_PATTERN = /\$\{([^}:]+)(?::-([^}]*))?\}/g;
+const PROCESS_REFERENCE_PREFIX = 'processes.';
+export const PROCESS_REFERENCE_FIELDS = ['port', 'url', 'host'] as const;
+
+export interface EnvFileStatus {
+  path: string;
+  loaded: boolean;
+  keys: number;
+}
+
+/**
+ * The environment a process is started with, on top of the MCP's own.
+ * `sources` tells where each key's final value came from: an env file path
+ * or "env" for the registered literals.
+ */
+export interface ResolvedEnvironment {
+  env: Record<string, string>;
+  sources: Record<string, string>;
+  interpolated: string[]; // Keys whose value contained ${...} references
+  unresolved: string[]; // References that had no value (replaced by '' or their fallback)
+  files: EnvFileStatus[];
+}
+
+// The parts of a process or task that make up its environment
+export type EnvironmentSource = Pick<ManagedProcessConfig, 'cwd' | 'env' | 'envFiles'>;
+
+function unquote(raw: string): string {
+  const quote = raw[0];
+  const body = raw.slice(1, -1);
+  if (quote === '"') {
+    return body.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t').replace(/\\(["\\$])/g, '$1');
+  }
+  return body;
+}
+
+/**
+ * Parse dotenv content: KEY=value lines, optional `export ` prefix, # comments,
+ * single quotes (literal), double quotes (escapes, may span lines) and
+ * backticks. Lines that are not assignments are skipped like dotenv does.
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, key] = match;
+    let value = match[2];
+
+    const quote = value[0];
+    if (quote === '"' || quote === "'" || quote === '`') {
+      // Multi-line values continue until the closing quote
+      let end = findClosingQuote(value, quote);
+      while (end === -1 && i + 1 < lines.length) {
+        value += `\n${lines[++i]}`;
+        end = findClosingQuote(value, quote);
+      }
+      result[key] = end === -1 ? value.slice(1) : unquote(value.slice(0, end + 1));
+    } else {
+      // Unquoted values end at an inline comment
+      result[key] = value.replace(/\s+#.*$/, '').trim();
+    }
+  }
+
+  return result;
+}
+
+function findClosingQuote(value: string, quote: string): number {
+  for (let i = 1; i < value.length; i++) {
+    if (value[i] === '\\' && quote === '"') {
+      i++;
+    } else if (value[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Helper: absolute path of an env file, relative entries being resolved
+ * against the process's working directory
+ */
+export function resolveEnvFilePath(config: EnvironmentSource, file: string, root: string): string {
+  return path.resolve(config.cwd || root, file);
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function lookupProcessField(
+  reference: string,
+  processes: Record<string, ManagedProcessConfig>,
+  root: string
+): Promise<string | undefined> {
+  // Process names may contain dots, so the field is whatever follows the last one
+  const rest = reference.slice(PROCESS_REFERENCE_PREFIX.length);
+  const dot = rest.lastIndexOf('.');
+  const name = rest.slice(0, dot);
+  const field = rest.slice(dot + 1);
+  const target = processes[name];
+  if (dot <= 0 || !target || !(PROCESS_REFERENCE_FIELDS as readonly string[]).includes(field)) {
+    return undefined;
+  }
+
+  let port = target.endpoint?.port ?? target.assignedPort?.port;
+  if (port === undefined) {
+    // Not started yet: fall back to the port it declares, env files included
+    const { env } = await resolveEnvironment(target, processes, root, { followProcesses: false });
+    port = getDeclaredPort({ ...target, env });
+  }
+  // Stored endpoints come from logs and state files; malformed ones are skipped
+  const url = target.endpoint?.urls.find(isValidUrl) || (port ? `http://localhost:${port}` : undefined);
+
+  if (field === 'port') {
+    return port !== undefined ? String(port) : undefined;
+  }
+  if (field === 'url') {
+    return url;
+  }
+  return url ? new URL(url).hostname : undefined;
+}
+
+/**
+ * Compute a process's environment. Precedence, lowest first: the MCP's own
+ * environment, `envFiles` in the order listed (so `.env.local` listed after
+ * `.env` wins), then the registered `env`. Values are interpolated after
+ * merging, so a reference sees the final value of the key it names; a key
+ * referencing itself sees the value from the MCP's environment.
+ */
+export async function resolveEnvironment(
+  config: EnvironmentSource,
+  processes: Record<string, ManagedProcessConfig>,
+  root: string,
+  options: { followProcesses?: boolean } = {}
+): Promise<ResolvedEnvironment> {
+  const followProcesses = options.followProcesses ?? true;
+  const raw: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+  const files: EnvFileStatus[] = [];
+
+  for (const file of config.envFiles || []) {
+    const filePath = resolveEnvFilePath(config, file, root);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      // Optional files such as .env.local are often absent
+      files.push({ path: filePath, loaded: false, keys: 0 });
+      continue;
+    }
+    const parsed = parseDotenv(content);
+    files.push({ path: filePath, loaded: true, keys: Object.keys(parsed).length });
+    for (const [key, value] of Object.entries(parsed)) {
+      raw[key] = value;
+      sources[key] = filePath;
+    }
+  }
+  for (const [key, value] of Object.entries(config.env || {})) {
+    raw[key] = value;
+    sources[key] = 'env';
+  }
+
+  const env: Record<string, string> = {};
+  const interpolated: string[] = [];
+  const unresolved = new Set<string>();
+  const resolving = new Set<string>();
+
+  const expand = async (key: string): Promise<string> => {
+    if (key in env) {
+      return env[key];
+    }
+    resolving.add(key);
+    let value = raw[key];
+    const references = [...value.matchAll(REFERENCE_PATTERN)];
+    if (references.length > 0) {
+      interpolated.push(key);
+      const replacements: string[] = [];
+      for (const [, name, fallback] of references) {
+        let replacement: string | undefined;
+        if (name.startsWith(PROCESS_REFERENCE_PREFIX)) {
+          replacement = followProcesses ? await lookupProcessField(name, processes, root) : undefined;
+        } else if (name in raw && !resolving.has(name)) {
+          replacement = await expand(name);
+        } else {
+          // Self or circular references fall back to the MCP's environment
+          replacement = process.env[name];
+        }
+        if (replacement === undefined || (replacement === '' && fallback !== undefined)) {
+          if (fallback === undefined) {
+            unresolved.add(name);
+          }
+          replacement = fallback ?? '';
+        }
+        replacements.push(replacement);
+      }
+      let index = 0;
+      value = value.replace(REFERENCE_PATTERN, () => replacements[index++]);
+    }
+    resolving.delete(key);
+    env[key] = value;
+    return value;
+  };
+
+  for (const key of Object.keys(raw)) {
+    await expand(key);
+  }
+
+  return { env, sources, interpolated, unresolved: [...unresolved], files };
+}
+
+/**
+ * Helper: the config a process is actually started with, its env replaced by
+ * the resolved environment
+ */
+export async function withResolvedEnv<T extends EnvironmentSource>(
+  config: T,
+  processes: Record<string, ManagedProcessConfig>,
+  root: string
+): Promise<T> {
+  if (!config.envFiles?.length && !Object.values(config.env || {}).some(value => value.includes('${'))) {
+    return config;
+  }
+  const { env } = await resolveEnvironment(config, processes, root);
+  return { ...config, env };
+}
@@ -0,0 +1,225 @@
+import { LogStream } from './backends/index.js';
+import { LogLine } from './logs.js';
+
+export type ErrorKind = 'js' | 'python' | 'compiler' | 'json';
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+export interface ExtractedError {
+  kind: ErrorKind;
+  type: string; // TypeError, TS2304, ValueError, error ...
+  message: string;
+  location?: SourceLocation;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  stream: LogStream;
+  lineNumber: number; // First occurrence
+  stack?: string[];
+}
+
+// One sighting of an error before grouping
+type ErrorOccurrence = Omit<ExtractedError, 'count' | 'firstSeen' | 'lastSeen'> & { timestamp?: string };
+
+const MAX_STACK_LINES = 10;
+
+// "TypeError: x is not a function", "Uncaught Error: boom", "[next] RangeError: ..."
+const JS_ERROR_HEADER = /\b((?:[A-Z][A-Za-z]*)?(?:Error|Exception))(?: \[[A-Z_]+\])?:\s*(.*)$/;
+const JS_STACK_FRAME = /^\s+at\s+(?:.*?\()?(.+?):(\d+):(\d+)\)?\s*$/;
+const JS_STACK_LINE = /^\s+at\s+/;
+const PYTHON_TRACEBACK = /^Traceback \(most recent call last\):/;
+const PYTHON_FRAME = /^\s+File "(.+)", line (\d+)/;
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt|Warning)?):?\s*(.*)$/;
+// tsc: "src/a.ts(3,5): error TS2304: ..." or "src/a.ts:3:5 - error TS2304: ..."
+const TSC_DIAGNOSTIC = /^(\S+?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*[:-]\s*error\s+(TS\d+):\s*(.*)$/;
+// gcc/esbuild/eslint style: "src/a.ts:3:5: error: ..." / "file.go:3:5: ERROR ..."
+const GENERIC_DIAGNOSTIC = /^(\S+\.\w+):(\d+):(\d+):?\s*(?:-\s*)?(?:error|ERROR|Error)\b:?\s*(.*)$/;
+const JSON_ERROR_LEVELS = new Set(['error', 'err', 'fatal', 'critical', 'crit', 'alert', 'emerg', 'emergency', 'panic']);
+// pino/bunyan numeric levels start at 50 for errors
+const JSON_ERROR_LEVEL_MIN = 50;
+
+function isInternalFrame(file: string): boolean {
+  return file.includes('node_modules') || file.startsWith('node:') || file.startsWith('internal/');
+}
+
+/**
+ * Helper: first stack frame pointing at user code (falls back to the first frame)
+ */
+function locationFromStack(stack: string[]): SourceLocation | undefined {
+  const frames = stack
+    .map(line => line.match(JS_STACK_FRAME))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ file: match[1].replace(/^file:\/\//, ''), line: Number(match[2]), column: Number(match[3]) }));
+  return frames.find(frame => !isInternalFrame(frame.file)) || frames[0];
+}
+
+function parseJsonError(text: string): { type: string; message: string; stack?: string[] } | null {
+  const start = text.indexOf('{');
+  if (start === -1 || !text.trimEnd().endsWith('}')) {
+    return null;
+  }
+  let entry: any;
+  try {
+    entry = JSON.parse(text.slice(start));
+  } catch (error) {
+    return null;
+  }
+  if (!entry || typeof entry !== 'object') {
+    return null;
+  }
+
+  const level = entry.level ?? entry.severity ?? entry.lvl;
+  const isError = typeof level === 'number'
+    ? level >= JSON_ERROR_LEVEL_MIN
+    : typeof level === 'string' && JSON_ERROR_LEVELS.has(level.toLowerCase());
+  if (!isError) {
+    return null;
+  }
+
+  const err = entry.err || entry.error;
+  const message = String(entry.msg ?? entry.message ?? err?.message ?? '');
+  const stack = typeof err?.stack === 'string' ? err.stack.split('\n').slice(1, MAX_STACK_LINES + 1) : undefined;
+  // pino/bunyan: 50 = error, 60 = fatal
+  const levelName = typeof level === 'number' ? (level >= 60 ? 'fatal' : 'error') : level.toLowerCase();
+  return { type: err?.type || err?.name || levelName, message, stack };
+}
+
+/**
+ * Walk log lines and pull out error signatures: JS/TS stack traces and Node
+ * `Error:` blocks, Python tracebacks, compiler diagnostics with file:line:col
+ * and JSON log lines at level >= error.
+ */
+export function extractErrors(lines: LogLine[]): ErrorOccurrence[] {
+  const found: ErrorOccurrence[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const { text, stream, lineNumber, timestamp } = lines[i];
+    const base = { stream, lineNumber, timestamp };
+
+    const json = parseJsonError(text);
+    if (json) {
+      found.push({
+        ...base,
+        kind: 'json',
+        type: json.type,
+        message: json.message,
+        stack: json.stack,
+        location: json.stack ? locationFromStack(json.stack) : undefined
+      });
+      continue;
+    }
+
+    if (PYTHON_TRACEBACK.test(text)) {
+      const frames: string[] = [];
+      let location: SourceLocation | undefined;
+      let j = i + 1;
+      // Indented lines belong to the traceback; the first unindented one is the exception
+      while (j < lines.length && /^\s/.test(lines[j].text) && lines[j].stream === stream) {
+        frames.push(lines[j].text);
+        const frame = lines[j].text.match(PYTHON_FRAME);
+        if (frame) {
+          location = { file: frame[1], line: Number(frame[2]) };
+        }
+        j++;
+      }
+      const exception = j < lines.length ? lines[j].text.match(PYTHON_EXCEPTION) : null;
+      found.push({
+        ...base,
+        kind: 'python',
+        type: exception?.[1] || 'Traceback',
+        message: exception?.[2] || '',
+        location,
+        stack: frames.slice(-MAX_STACK_LINES)
+      });
+      i = exception ? j : j - 1;
+      continue;
+    }
+
+    const tsc = text.match(TSC_DIAGNOSTIC);
+    if (tsc) {
+      found.push({
+        ...base,
+        kind: 'compiler',
+        type: tsc[6],
+        message: tsc[7],
+        location: { file: tsc[1], line: Number(tsc[2] ?? tsc[4]), column: Number(tsc[3] ?? tsc[5]) }
+      });
+      continue;
+    }
+
+    const diagnostic = text.match(GENERIC_DIAGNOSTIC);
+    if (diagnostic) {
+      found.push({
+        ...base,
+        kind: 'compiler',
+        type: 'error',
+        message: diagnostic[4],
+        location: { file: diagnostic[1], line: Number(diagnostic[2]), column: Number(diagnostic[3]) }
+      });
+      continue;
+    }
+
+    const jsError = text.match(JS_ERROR_HEADER);
+    if (jsError) {
+      const stack: string[] = [];
+      let j = i + 1;
+      while (j < lines.length && JS_STACK_LINE.test(lines[j].text) && lines[j].stream === stream) {
+        stack.push(lines[j].text.trim());
+        j++;
+      }
+      found.push({
+        ...base,
+        kind: 'js',
+        type: jsError[1],
+        message: jsError[2],
+        location: locationFromStack(stack.map(line => `  ${line}`)),
+        stack: stack.length > 0 ? stack.slice(0, MAX_STACK_LINES) : undefined
+      });
+      i = j - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Helper: collapse volatile parts (numbers, hex ids, quoted values) so
+ * repeats of the same error group together
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/0x[0-9a-f]+/gi, '0x?')
+    .replace(/\b\d+\b/g, 'N')
+    .replace(/(['"`]).*?\1/g, '$1?$1')
+    .trim();
+}
+
+/**
+ * Group repeated errors and count occurrences, most frequent first
+ */
+export function groupErrors(occurrences: ErrorOccurrence[]): ExtractedError[] {
+  const groups = new Map<string, ExtractedError>();
+
+  for (const occurrence of occurrences) {
+    const { timestamp, ...error } = occurrence;
+    const location = error.location ? `${error.location.file}:${error.location.line}` : '';
+    const key = [error.kind, error.type, normalizeMessage(error.message), location].join('|');
+
+    const existing = groups.get(key);
+    if (existing) {
+      existing.count++;
+      if (timestamp) {
+        existing.firstSeen = !existing.firstSeen || timestamp < existing.firstSeen ? timestamp : existing.firstSeen;
+        existing.lastSeen = !existing.lastSeen || timestamp > existing.lastSeen ? timestamp : existing.lastSeen;
+      }
+    } else {
+      groups.set(key, { ...error, count: 1, firstSeen: timestamp, lastSeen: timestamp });
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count || (b.lastSeen || '').localeCompare(a.lastSeen || ''));
+}
@@ -0,0 +1,175 @@
+import { HealthCheckConfig, ManagedProcessConfig } from './types.js';
+import { probeHttp, probeTcp, ProbeResult } from './probes.js';
+import { withAssignedPort } from './ports.js';
+
+export const HEALTH_STATUSES = ['healthy', 'degraded', 'unhealthy', 'unknown'] as const;
+export type HealthStatus = typeof HEALTH_STATUSES[number];
+
+const DEFAULT_INTERVAL_MS = 10000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+
+export interface HealthProbe extends ProbeResult {
+  target: string;
+  checkedAt: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  lastProbe?: HealthProbe;
+}
+
+interface CheckState {
+  check: HealthCheckConfig;
+  consecutiveFailures: number;
+  lastProbe?: HealthProbe;
+  timer?: NodeJS.Timeout;
+}
+
+interface ProcessMonitor {
+  signature: string; // Serialized checks, used to detect config changes
+  checks: CheckState[];
+}
+
+// Health probes run in the background for as long as this MCP session lives,
+// keyed by "<project key>/<process name>"
+const monitors = new Map<string, ProcessMonitor>();
+
+function monitorKey(scope: string, name: string): string {
+  return `${scope}/${name}`;
+}
+
+function describeTarget(check: HealthCheckConfig): string {
+  return check.type === 'http' ? check.url : `tcp://${check.host || '127.0.0.1'}:${check.port}`;
+}
+
+async function runProbe(state: CheckState, timer: NodeJS.Timeout): Promise<boolean> {
+  const { check } = state;
+  const result = check.type === 'http'
+    ? await probeHttp(check.url, check.timeoutMs)
+    : await probeTcp(check.port, check.host, check.timeoutMs);
+  if (state.timer !== timer) {
+    // Stopped or reset while probing: the result belongs to an earlier run
+    return false;
+  }
+
+  state.consecutiveFailures = result.ok ? 0 : state.consecutiveFailures + 1;
+  state.lastProbe = {
+    ...result,
+    target: describeTarget(check),
+    checkedAt: new Date().toISOString()
+  };
+  return true;
+}
+
+function schedule(state: CheckState, delayMs: number) {
+  const timer = setTimeout(async () => {
+    if (await runProbe(state, timer)) {
+      schedule(state, state.check.intervalMs ?? DEFAULT_INTERVAL_MS);
+    }
+  }, delayMs);
+  state.timer = timer;
+  // Probes must never keep the MCP process alive on their own
+  timer.unref();
+}
+
+function stopMonitor(monitor: ProcessMonitor) {
+  for (const state of monitor.checks) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+  }
+}
+
+/**
+ * Align running probes with a project's registry: start monitors for new or
+ * changed health checks and stop those of removed processes. Monitors of
+ * other projects (`scope` is the project key) are left running.
+ */
+export function syncHealthMonitors(processes: Record<string, ManagedProcessConfig>, scope: string) {
+  for (const [key, monitor] of monitors) {
+    if (!key.startsWith(`${scope}/`)) {
+      continue;
+    }
+    if (!processes[key.slice(scope.length + 1)]?.healthChecks?.length) {
+      stopMonitor(monitor);
+      monitors.delete(key);
+    }
+  }
+
+  for (const stored of Object.values(processes)) {
+    if (!stored.healthChecks?.length) {
+      continue;
+    }
+
+    // Probe the port the process actually runs on
+    const config = withAssignedPort(stored);
+    const signature = JSON.stringify(config.healthChecks);
+    const key = monitorKey(scope, config.name);
+    const existing = monitors.get(key);
+    if (existing?.signature === signature) {
+      continue;
+    }
+    if (existing) {
+      stopMonitor(existing);
+    }
+
+    const monitor: ProcessMonitor = {
+      signature,
+      checks: config.healthChecks!.map(check => ({ check, consecutiveFailures: 0 }))
+    };
+    monitor.checks.forEach(state => schedule(state, 0));
+    monitors.set(key, monitor);
+  }
+}
+
+/**
+ * Start a process's probes over once a new run is ready, so failures counted
+ * while it was stopped or still booting do not mark it unhealthy
+ */
+export function resetHealthMonitor(name: string, scope: string) {
+  const monitor = monitors.get(monitorKey(scope, name));
+  if (!monitor) {
+    return;
+  }
+  for (const state of monitor.checks) {
+    clearTimeout(state.timer);
+    state.consecutiveFailures = 0;
+    state.lastProbe = undefined;
+    schedule(state, 0);
+  }
+}
+
+/**
+ * Summarize probe results for a process. Anything that is not running, or
+ * has no probes or results yet, is reported as unknown.
+ */
+export function getHealthReport(name: string, processStatus: string, scope: string): HealthReport {
+  const monitor = monitors.get(monitorKey(scope, name));
+  const probed = monitor?.checks.filter(state => state.lastProbe) || [];
+  if (processStatus !== 'online' || probed.length === 0) {
+    return { status: 'unknown' };
+  }
+
+  let status: HealthStatus = 'healthy';
+  for (const state of probed) {
+    const threshold = state.check.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (state.consecutiveFailures >= threshold) {
+      status = 'unhealthy';
+      break;
+    }
+    if (state.consecutiveFailures > 0) {
+      status = 'degraded';
+    }
+  }
+
+  // Surface the failing probe when there is one, otherwise the most recent
+  const failing = probed
+    .filter(state => state.consecutiveFailures > 0)
+    .sort((a, b) => b.consecutiveFailures - a.consecutiveFailures);
+  const lastProbe = failing.length > 0
+    ? failing[0].lastProbe
+    : probed
+      .map(state => state.lastProbe!)
+      .sort((a, b) => b.checkedAt.localeCompare(a.checkedAt))[0];
+
+  return { status, lastProbe };
+}
@@ -0,0 +1,204 @@
+import { ManagedProcessConfig, ProcessEvent } from './types.js';
+import { ProcessBackend, ProcessInfo, resolveBackend } from './backends/index.js';
+import { loadedSessions, persistState, ProjectSession } from './state.js';
+import { ProjectContext } from './projects.js';
+
+export const MAX_HISTORY_EVENTS = 50;
+const CRASH_LOG_LINES = 30;
+const WATCH_INTERVAL_MS = 3000;
+
+// Processes with a lifecycle action in flight, by "<project key>/<name>"; the
+// watcher leaves them alone
+const transitioning = new Set<string>();
+
+let watchTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Append an event to a process's history, keeping only the newest entries
+ */
+export function recordEvent(
+  config: ManagedProcessConfig,
+  event: Omit<ProcessEvent, 'at'> & { at?: string }
+): ProcessEvent {
+  const entry: ProcessEvent = { ...event, at: event.at || new Date().toISOString() };
+  config.history = [...(config.history || []), entry].slice(-MAX_HISTORY_EVENTS);
+  return entry;
+}
+
+function lastRun(config: ManagedProcessConfig): ProcessEvent | undefined {
+  const last = config.history?.[config.history.length - 1];
+  return last && (last.type === 'start' || last.type === 'restart') ? last : undefined;
+}
+
+/**
+ * Helper: milliseconds the current run has been up, if it is known
+ */
+export function getUptimeMs(config: ManagedProcessConfig, until = Date.now()): number | undefined {
+  const run = lastRun(config);
+  return run ? Math.max(0, until - Date.parse(run.at)) : undefined;
+}
+
+export function getLastCrash(config: ManagedProcessConfig): ProcessEvent | undefined {
+  return config.history?.filter(event => event.type === 'crash').pop();
+}
+
+/**
+ * Run a lifecycle action while keeping the exit watcher from mistaking the
+ * intentional stop/restart in the middle of it for a crash
+ */
+export async function withTransition<T>(project: ProjectContext, name: string, action: () => Promise<T>): Promise<T> {
+  const key = `${project.key}/${name}`;
+  transitioning.add(key);
+  try {
+    return await action();
+  } finally {
+    transitioning.delete(key);
+  }
+}
+
+// Backdate events noticed by polling to when the backend says the run began
+function runStartedAt(info: ProcessInfo): string | undefined {
+  return info.startedAt ? new Date(info.startedAt).toISOString() : undefined;
+}
+
+async function captureCrashLogs(backend: ProcessBackend, name: string): Promise<string | undefined> {
+  try {
+    return (await backend.readLogs(name, CRASH_LOG_LINES, 'all')) || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Compare the recorded history with the live process and record exits nobody
+ * asked for: a run that is no longer online, or an autorestart (the restart
+ * counter moved without a restart event). Returns true when events were added.
+ */
+export async function reconcileHistory(
+  config: ManagedProcessConfig,
+  backend: ProcessBackend,
+  info: ProcessInfo | null
+): Promise<boolean> {
+  const run = lastRun(config);
+  if (!run) {
+    // A crash already recorded may since have been autorestarted by the backend
+    const last = config.history?.[config.history.length - 1];
+    if (last?.type === 'crash' && info?.status === 'online'
+      && info.restarts !== undefined && info.restarts > (last.restarts ?? info.restarts)) {
+      last.autorestarted = true;
+      recordEvent(config, { type: 'start', at: runStartedAt(info), pid: info.pid, restarts: info.restarts });
+      return true;
+    }
+    return false;
+  }
+
+  const autorestarted = info?.status === 'online'
+    && run.restarts !== undefined
+    && info.restarts !== undefined
+    && info.restarts > run.restarts;
+  if (info?.status === 'online' && !autorestarted) {
+    return false;
+  }
+
+  // Exit details are only trustworthy when they belong to this run
+  const startedAt = Date.parse(run.at);
+  const exitKnown = info?.lastExitAt === undefined || info.lastExitAt >= startedAt;
+  const exitCode = exitKnown ? info?.lastExitCode : undefined;
+  const signal = exitKnown ? info?.lastSignal : undefined;
+  const exitedAt = exitKnown && info?.lastExitAt ? info.lastExitAt : Date.now();
+  const clean = !autorestarted && info?.status !== 'errored' && exitCode === 0 && !signal;
+
+  recordEvent(config, {
+    type: clean ? 'exit' : 'crash',
+    at: new Date(exitedAt).toISOString(),
+    pid: run.pid,
+    exitCode: exitCode ?? undefined,
+    signal: signal ?? undefined,
+    uptimeMs: Math.max(0, exitedAt - startedAt),
+    restarts: info?.restarts,
+    autorestarted: autorestarted || undefined,
+    logTail: clean ? undefined : await captureCrashLogs(backend, config.name)
+  });
+
+  if (autorestarted) {
+    recordEvent(config, { type: 'start', at: runStartedAt(info!), pid: info!.pid, restarts: info!.restarts });
+  }
+  return true;
+}
+
+/**
+ * Helper: one-line description of a lifecycle event
+ */
+export function describeEvent(event: ProcessEvent): string {
+  const parts = [`${event.at} ${event.type}`];
+  if (event.pid) {
+    parts.push(`pid ${event.pid}`);
+  }
+  if (event.exitCode !== undefined && event.exitCode !== null) {
+    parts.push(`exit code ${event.exitCode}`);
+  }
+  if (event.signal) {
+    parts.push(`signal ${event.signal}`);
+  }
+  if (event.uptimeMs !== undefined) {
+    parts.push(`after ${(event.uptimeMs / 1000).toFixed(1)}s`);
+  }
+  if (event.restarts !== undefined) {
+    parts.push(`restarts ${event.restarts}`);
+  }
+  if (event.autorestarted) {
+    parts.push('autorestarted');
+  }
+  if (event.reason) {
+    parts.push(`reason: ${event.reason}`);
+  }
+  return parts.join(', ');
+}
+
+async function checkRunningProcesses(session: ProjectSession) {
+  const running = Object.values(session.state.managedProcesses)
+    .filter(config => lastRun(config) && !transitioning.has(`${session.project.key}/${config.name}`));
+  if (running.length === 0) {
+    return;
+  }
+
+  const listings = new Map<ProcessBackend, ProcessInfo[]>();
+  let changed = false;
+  for (const config of running) {
+    const backend = await resolveBackend(config, session);
+    if (!listings.has(backend)) {
+      listings.set(backend, await backend.list());
+    }
+    const info = listings.get(backend)!.find(entry => entry.name === config.name) || null;
+    changed = (await reconcileHistory(config, backend, info)) || changed;
+  }
+
+  if (changed) {
+    await persistState(session);
+  }
+}
+
+/**
+ * Poll running processes in the background so crashes are recorded (with
+ * their log tail) close to when they happen, not when someone next looks
+ */
+export function watchProcessExits() {
+  if (watchTimer) {
+    return;
+  }
+  const tick = () => {
+    watchTimer = setTimeout(async () => {
+      for (const session of loadedSessions()) {
+        try {
+          await checkRunningProcesses(session);
+        } catch (error) {
+          // Backend unavailable; try again next round
+        }
+      }
+      tick();
+    }, WATCH_INTERVAL_MS);
+    // The watcher must never keep the MCP process alive on its own
+    watchTimer.unref();
+  };
+  tick();
+}
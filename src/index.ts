@@ -1,80 +1,464 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { exec, ExecOptions } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as linkify from 'linkifyjs';
-import * as os from 'os';
+import {
+  BACKEND_KINDS,
+  BackendKind,
+  DevServerState,
+  LIMIT_ACTIONS,
+  LogOffsets,
+  ManagedProcessConfig,
+  ProcessEvent,
+  TaskConfig,
+  TaskRun
+} from './types.js';
+import { loadProject, loadState, persistState, ProjectSession, readProjectState } from './state.js';
+import { listPm2Processes } from './backends/pm2.js';
+import { LogStream, ProcessBackend, ProcessInfo, resolveBackend } from './backends/index.js';
+import { BulkResult, DEFAULT_BULK_CONCURRENCY, groupIntoLevels, mapWithConcurrency, selectProcesses } from './bulk.js';
+import { assertNoDependents, getStartOrder, getStopOrder, validateDependencies } from './dependencies.js';
+import { findFreePort, findPortOwner, getDeclaredPort, isPortInUse, withAssignedPort, withPort } from './ports.js';
+import { detectEndpoint } from './endpoints.js';
+import { getHealthReport, HEALTH_STATUSES, resetHealthMonitor, syncHealthMonitors } from './health.js';
+import { captureLogOffsets, ReadinessResult, waitForReady } from './readiness.js';
+import { initSubscriptions, subscribe, unsubscribe } from './subscriptions.js';
+import { decodeLogCursor, encodeLogCursor, parseLogLine, readLogLines, readLogPage, StreamLogLine, tailFile } from './logs.js';
+import { encodeInput, KEY_NAMES } from './input.js';
+import { extractErrors, groupErrors } from './errorExtraction.js';
+import { mergeSearchResults, searchLogHistory } from './logSearch.js';
+import {
+  healthCheckSchema,
+  logRetentionSchema,
+  memorySizeSchema,
+  processNameSchema,
+  readinessSchema,
+  watchSchema
+} from './schemas.js';
+import { markDescriptorSynced, mergeDescriptor, readDescriptor, toDeclared, writeDescriptor } from './descriptor.js';
+import {
+  DEFAULT_PROJECT,
+  DESCRIPTOR_FILE_NAME,
+  listKnownProjects,
+  localName,
+  namespacedName,
+  projectContext,
+  ProjectContext
+} from './projects.js';
+import { resolveEnvironment, withResolvedEnv } from './environment.js';
+import {
+  classifyMemoryTrend,
+  getSamples,
+  MAX_SAMPLES,
+  MetricSample,
+  METRICS_INTERVAL_MS,
+  startMetricsSampler,
+  summarize
+} from './metrics.js';
+import { syncWatchers } from './watch.js';
+import { getLogSources, startLogRetention, toLogicalOffsets } from './logRotation.js';
+import { findLimitBreach, hasLimits, recordLimitBreach } from './limits.js';
+import { buildRedactionContext, isSensitiveKey, REDACTED, RedactionContext, redactOutput, redactText } from './redaction.js';
+import { createTaskRun, DEFAULT_TASK_TIMEOUT_MS, executeTaskRun, settleOrphanedRuns } from './tasks.js';
+import { DEFAULT_DISCOVERY_DEPTH, DiscoveredServer, discoverDevServers } from './discovery.js';
+import {
+  describeEvent,
+  getLastCrash,
+  getUptimeMs,
+  reconcileHistory,
+  recordEvent,
+  watchProcessExits,
+  withTransition
+} from './history.js';
 
-const execAsync = promisify(exec);
+/**
+ * Helper: resolve the backend responsible for a process name, registered or not
+ */
+async function backendFor(session: ProjectSession, name: string): Promise<ProcessBackend> {
+  return resolveBackend(session.state.managedProcesses[name], session);
+}
+
+/**
+ * Helper: wait for a started process to become ready, failing with its log
+ * tail when it dies or the readiness check times out
+ */
+async function awaitReadiness(
+  session: ProjectSession,
+  config: ManagedProcessConfig,
+  backend: ProcessBackend,
+  offsets: LogOffsets
+): Promise<ReadinessResult> {
+  const result = await waitForReady(config, backend, offsets);
+  if (!result.ready) {
+    // Record the crash right away instead of waiting for the exit watcher
+    const registered = session.state.managedProcesses[config.name];
+    if (registered && await reconcileHistory(registered, backend, await backend.getInfo(config.name))) {
+      await persistState(session);
+    }
+
+    let tail = '';
+    try {
+      tail = await backend.readLogs(config.name, 30, 'all');
+    } catch (error) {
+      // Logs unavailable; report the failure without them
+    }
+    throw new Error(
+      `Server '${config.name}' did not become ready: ${result.reason}\n\nLast log lines:\n${tail || '(no output)'}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Helper: add a start/restart event carrying the new run's PID, restart
+ * count and the log offsets where the run begins
+ */
+async function recordRun(
+  config: ManagedProcessConfig,
+  backend: ProcessBackend,
+  type: 'start' | 'restart',
+  reason?: string
+) {
+  const info = await backend.getInfo(config.name);
+  recordEvent(config, { type, pid: info?.pid, restarts: info?.restarts, reason, logOffsets: config.logOffsets });
+}
+
+/**
+ * Helper: lifecycle event without its log tail, for compact listings
+ */
+function withoutLogTail(event: ProcessEvent | undefined): Omit<ProcessEvent, 'logTail'> | undefined {
+  if (!event) {
+    return undefined;
+  }
+  const { logTail, ...summary } = event;
+  return summary;
+}
 
-const STATE_FILE = path.join(process.cwd(), '.the-dev-server-state.json');
+/**
+ * Helper: discovery candidates annotated with the registered process that
+ * already runs the same command in the same directory
+ */
+async function discoverCandidates(session: ProjectSession, root: string, maxDepth = DEFAULT_DISCOVERY_DEPTH) {
+  const registered = Object.values(session.state.managedProcesses);
+  const sameCommand = (a: ManagedProcessConfig, b: ManagedProcessConfig) =>
+    path.resolve(a.cwd || root) === path.resolve(b.cwd || root)
+    && a.script === b.script
+    && JSON.stringify(a.args || []) === JSON.stringify(b.args || []);
+
+  return (await discoverDevServers(root, maxDepth)).map((candidate: DiscoveredServer) => ({
+    name: candidate.config.name,
+    framework: candidate.framework,
+    source: candidate.source,
+    sourceFile: candidate.sourceFile,
+    command: candidate.command,
+    confidence: candidate.confidence,
+    registeredAs: registered.find(config => sameCommand(config, candidate.config))?.name,
+    config: candidate.config
+  }));
+}
 
-// PM2 management state
-interface ManagedProcessConfig {
+interface StartResult {
   name: string;
-  script: string;
-  cwd?: string;
-  args?: string[];
-  env?: Record<string, string>;
-  interpreter?: string;
-  instances?: number;
-  watch?: boolean;
-  autorestart?: boolean;
-  logOffset?: number; // Byte offset for reading fresh logs after restart
+  status: 'started' | 'already-running';
+  readyInMs?: number;
+  url?: string;
+  port?: number;
+  reassignedFrom?: number; // Declared port that was busy
+}
+
+/**
+ * Helper: start a registered process unless it is already online, then
+ * block until it is ready
+ */
+async function startAndWait(session: ProjectSession, config: ManagedProcessConfig): Promise<StartResult> {
+  const backend = await resolveBackend(config, session);
+  const before = await backend.getInfo(config.name);
+  if (before?.status === 'online') {
+    return { name: config.name, status: 'already-running' };
+  }
+  // A previous run may have died without anyone noticing yet
+  await reconcileHistory(config, backend, before);
+
+  const runConfig = await resolvePortConflict(
+    config,
+    await withResolvedEnv(config, session.state.managedProcesses, session.project.root)
+  );
+
+  // Remember where the logs end so readiness and freshOnly reads see only this run
+  const offsets = await captureLogOffsets(backend, config.name);
+  config.logOffsets = toLogicalOffsets(config, offsets);
+  await withTransition(session.project, config.name, async () => {
+    // The existing backend entry is reused (keeping restart counts and PM2 ids);
+    // both backends apply the resolved env of runConfig when they start it
+    await backend.start(runConfig);
+    await recordRun(config, backend, 'start');
+  });
+
+  config.endpoint = undefined;
+  await persistState(session);
+  // Health probes follow the process to its assigned port
+  syncMonitors(session);
+
+  const readiness = await awaitReadiness(session, runConfig, backend, offsets);
+  config.endpoint = detectEndpoint(runConfig, readiness);
+  await persistState(session);
+  resetHealthMonitor(config.name, session.project.key);
+
+  const declaredPort = config.assignedPort?.declared ?? getDeclaredPort(runConfig);
+  const port = config.endpoint?.port ?? getDeclaredPort(runConfig);
+  return {
+    name: config.name,
+    status: 'started',
+    readyInMs: readiness.elapsedMs,
+    url: config.endpoint?.urls[0],
+    port,
+    reassignedFrom: declaredPort !== undefined && port !== declaredPort ? declaredPort : undefined
+  };
 }
 
-interface DevServerState {
-  managedProcesses: Record<string, ManagedProcessConfig>;
-  lastSynced?: Date;
+/**
+ * Helper: make sure the declared port of `runConfig` (the resolved `config`)
+ * is free before starting. A busy port fails with the owning process, unless
+ * autoAssignPort is set, in which case the returned config runs on a free
+ * port instead and the assignment is stored on `config` for later restarts.
+ */
+async function resolvePortConflict(config: ManagedProcessConfig, runConfig: ManagedProcessConfig): Promise<ManagedProcessConfig> {
+  const port = getDeclaredPort(runConfig);
+  if (!port || !(await isPortInUse(port))) {
+    config.assignedPort = undefined;
+    return runConfig;
+  }
+
+  if (config.autoAssignPort) {
+    const freePort = await findFreePort(port);
+    config.assignedPort = { declared: port, port: freePort };
+    return withPort(runConfig, port, freePort);
+  }
+
+  const owner = await findPortOwner(port);
+  const ownerInfo = owner
+    ? `PID ${owner.pid}${owner.command ? ` (${owner.command})` : ''}`
+    : 'another process';
+  throw new Error(
+    `Port ${port} required by '${config.name}' is already in use by ${ownerInfo}. ` +
+    `Stop that process, change the port, or set autoAssignPort to pick a free port.`
+  );
 }
 
-let serverState: DevServerState = {
-  managedProcesses: {}
-};
-
-async function loadState(): Promise<void> {
-  try {
-    const data = await fs.readFile(STATE_FILE, 'utf-8');
-    const parsed = JSON.parse(data) as DevServerState;
-    serverState = {
-      managedProcesses: parsed.managedProcesses || {},
-      lastSynced: parsed.lastSynced ? new Date(parsed.lastSynced) : undefined
-    };
-  } catch (error) {
-    // State file missing or unreadable; start fresh
-    serverState = { managedProcesses: {} };
+/**
+ * Helper: port a restart runs on. A running process holds its own port, so it
+ * keeps it (an auto-assigned one included) as long as the declared port did
+ * not change; otherwise the port is checked the same way as for a start.
+ */
+async function resolveRestartPort(
+  config: ManagedProcessConfig,
+  runConfig: ManagedProcessConfig,
+  online: boolean
+): Promise<ManagedProcessConfig> {
+  const declared = getDeclaredPort(runConfig);
+  if (online && declared !== undefined) {
+    if (config.assignedPort?.declared === declared) {
+      return withAssignedPort(runConfig);
+    }
+    if (!config.assignedPort && config.endpoint?.port === declared) {
+      return runConfig;
+    }
   }
+  return resolvePortConflict(config, runConfig);
 }
 
-async function persistState(): Promise<void> {
-  const serialized = JSON.stringify(
-    {
-      ...serverState,
-      lastSynced: new Date().toISOString()
-    },
-    null,
-    2
+/**
+ * Helper: restart a process and wait for readiness when it is registered.
+ * Logs are kept; the restart event marks where the new run's output begins.
+ */
+async function restartAndWait(session: ProjectSession, name: string, reason?: string): Promise<{ readyInMs?: number; url?: string }> {
+  const backend = await backendFor(session, name);
+  const config = session.state.managedProcesses[name];
+  const info = await backend.getInfo(name);
+  if (config) {
+    // Keep the crash (and its log tail) of the run being replaced
+    await reconcileHistory(config, backend, info);
+  }
+
+  // Env files may have changed since the last run
+  const runConfig = config && await resolveRestartPort(
+    config,
+    await withResolvedEnv(config, session.state.managedProcesses, session.project.root),
+    info?.status === 'online'
   );
-  await fs.writeFile(STATE_FILE, serialized, 'utf-8');
+  const offsets = await captureLogOffsets(backend, name);
+  if (config) {
+    // Fresh log reads start where this run begins
+    config.logOffsets = toLogicalOffsets(config, offsets);
+  }
+  await withTransition(session.project, name, async () => {
+    await backend.restart(name, runConfig);
+    if (config) {
+      await recordRun(config, backend, 'restart', reason);
+    }
+  });
+
+  if (!config) {
+    // Unregistered processes have no readiness settings to wait for
+    return {};
+  }
+
+  config.endpoint = undefined;
+  await persistState(session);
+  syncMonitors(session);
+
+  // Servers may land on another port after a restart, so detect it again
+  const readiness = await awaitReadiness(session, runConfig!, backend, offsets);
+  config.endpoint = detectEndpoint(runConfig!, readiness);
+  await persistState(session);
+  resetHealthMonitor(name, session.project.key);
+
+  return { readyInMs: readiness.elapsedMs, url: config.endpoint?.urls[0] };
+}
+
+/**
+ * Helper: stop a process and forget where it was listening
+ */
+async function stopProcess(session: ProjectSession, name: string, reason?: string): Promise<void> {
+  const backend = await backendFor(session, name);
+  const config = session.state.managedProcesses[name];
+  const info = await backend.getInfo(name);
+  if (config) {
+    await reconcileHistory(config, backend, info);
+  }
+
+  await withTransition(session.project, name, () => backend.stop(name));
+
+  if (config) {
+    if (info?.status === 'online') {
+      recordEvent(config, { type: 'stop', pid: info.pid, uptimeMs: getUptimeMs(config), restarts: info.restarts, reason });
+    }
+    config.endpoint = undefined;
+    await persistState(session);
+  }
+}
+
+// Limit actions in flight and breaches already flagged, by "<project key>/<name>";
+// a flagged process is flagged again only after it went back under its limits
+const enforcingLimits = new Set<string>();
+const flaggedLimits = new Set<string>();
+
+/**
+ * Helper: sample listener that records resource limit breaches and restarts,
+ * stops or only flags the process as configured
+ */
+function enforceLimits(session: ProjectSession, config: ManagedProcessConfig, samples: MetricSample[]) {
+  const key = `${session.project.key}/${config.name}`;
+  if (!hasLimits(config) || enforcingLimits.has(key)) {
+    return;
+  }
+
+  const breach = findLimitBreach(config, samples);
+  if (!breach) {
+    flaggedLimits.delete(key);
+    return;
+  }
+  const action = config.limitAction || 'restart';
+  if (action === 'flag' && flaggedLimits.has(key)) {
+    return;
+  }
+
+  const entry = recordLimitBreach(config, { ...breach, action });
+  if (action === 'flag') {
+    flaggedLimits.add(key);
+  }
+
+  enforcingLimits.add(key);
+  void (async () => {
+    try {
+      await persistState(session);
+      if (action === 'stop') {
+        await stopProcess(session, config.name, `${breach.limit} limit`);
+      } else if (action === 'restart') {
+        await restartAndWait(session, config.name, `${breach.limit} limit`);
+      }
+    } catch (error) {
+      // The failure is kept with the breach, where status tools report it
+      const stored = session.state.managedProcesses[config.name]?.limitBreaches
+        ?.find(candidate => candidate.at === entry.at && candidate.limit === entry.limit);
+      if (stored) {
+        stored.error = error instanceof Error ? error.message : String(error);
+        await persistState(session).catch(() => undefined);
+      }
+    } finally {
+      enforcingLimits.delete(key);
+    }
+  })();
 }
 
-async function runPm2(command: string, options: ExecOptions = {}) {
-  const execOptions: ExecOptions & { encoding: BufferEncoding } = {
-    ...(options as ExecOptions),
-    encoding: 'utf8' as BufferEncoding,
-    env: {
-      ...process.env,
-      ...(options.env || {})
+// Watch-triggered restarts in flight, by "<project key>/<name>"
+const watchRestarts = new Set<string>();
+
+/**
+ * Helper: watch listener restarting a running process after its files changed
+ */
+function restartOnChange(name: string, files: string[], root: string) {
+  void (async () => {
+    // Watchers keep running for every project loaded in this session
+    const session = await loadProject(projectContext(root));
+    const key = `${session.project.key}/${name}`;
+    const config = session.state.managedProcesses[name];
+    if (!config || watchRestarts.has(key)) {
+      return;
     }
-  };
+    const backend = await resolveBackend(config, session);
+    if ((await backend.getInfo(name))?.status !== 'online') {
+      // A stopped server stays stopped; it picks the change up on its next start
+      return;
+    }
+
+    watchRestarts.add(key);
+    try {
+      const more = files.length > 1 ? ` (+${files.length - 1} more)` : '';
+      await restartAndWait(session, name, `watch: ${files[0]}${more}`);
+    } finally {
+      watchRestarts.delete(key);
+    }
+  })().catch(error => {
+    console.error(`Watch restart of '${name}' failed:`, error instanceof Error ? error.message : error);
+  });
+}
+
+/**
+ * Helper: align health probes and file watchers with a project's registry
+ */
+function syncMonitors(session: ProjectSession) {
+  syncHealthMonitors(session.state.managedProcesses, session.project.key);
+  syncWatchers(session.state.managedProcesses, session.project.key, session.project.root, restartOnChange);
+}
+
+/**
+ * Helper: fetch live info for registered processes, listing each backend once
+ */
+async function collectProcessInfo(
+  session: ProjectSession,
+  configs: ManagedProcessConfig[]
+): Promise<Map<string, { backend: ProcessBackend; info: ProcessInfo | null }>> {
+  const listings = new Map<ProcessBackend, Promise<ProcessInfo[]>>();
+  const result = new Map<string, { backend: ProcessBackend; info: ProcessInfo | null }>();
+
+  for (const config of configs) {
+    const backend = await resolveBackend(config, session);
+    if (!listings.has(backend)) {
+      listings.set(backend, backend.list());
+    }
+    const infos = await listings.get(backend)!;
+    result.set(config.name, {
+      backend,
+      info: infos.find(info => info.name === config.name) || null
+    });
+  }
 
-  const { stdout } = await execAsync(command, execOptions);
-  return stdout as string;
+  return result;
 }
 
 const server = new McpServer({
@@ -89,15 +473,22 @@ const server = new McpServer({
 {
   instructions: `CRITICAL: ALWAYS use this MCP to manage development servers.
 
-FIRST TIME with a project:
-1. Register every dev server with register-managed-process()
+FIRST TIME with a project (servers declared in devserver.config.json are registered automatically):
+1. Run discover-dev-servers() and register the right candidates (pass register: [...]),
+   or register servers by hand with register-managed-process()
 2. Review registered servers with get-managed-processes()
+3. Share the setup with export-config() (writes devserver.config.json to commit)
 
 WHEN USER ASKS about server state:
 1. Call get-managed-processes() to check what's running
 2. Start or stop servers with start-managed-process() / stop-managed-process()
+   (or a whole stack with start-group() / stop-group() / start-all() / stop-all())
 3. Update configuration with update-managed-process()
 
+OTHER PROJECTS:
+Every tool accepts an optional project (root path, key or folder name);
+list-all-managed-processes() shows the servers of all known projects.
+
 WHEN DEBUGGING:
 - Use the diagnose-server prompt for systematic troubleshooting
 - Check logs with read-managed-process-logs()
@@ -105,6 +496,124 @@ WHEN DEBUGGING:
 ALWAYS manage servers through this MCP.`
 });
 
+/**
+ * Helper: redaction context of a project: the secrets and allowlists of its
+ * registered processes and tasks
+ */
+function redactionContextFor({ project, state }: ProjectSession): Promise<RedactionContext> {
+  return buildRedactionContext(state.managedProcesses, project.root, state.tasks);
+}
+
+/**
+ * Helper: wrap a tool or resource handler so whatever it returns or throws is
+ * masked before it reaches the client. Tools are masked with the registry of
+ * their `project` argument, resources with the MCP's own project. Every tool
+ * and resource handler below is registered through it, so env values, raw
+ * backend output and logs never reach the client unmasked.
+ */
+function withRedaction<Args extends unknown[], Result>(
+  handler: (...args: Args) => Result | Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return async (...args) => {
+    const input = args[0];
+    const selector = input && typeof input === 'object' && 'project' in input && typeof input.project === 'string'
+      ? input.project
+      : undefined;
+    // An unknown project selector fails the call; its error is masked with the MCP's own project
+    const context = async () => redactionContextFor(await loadState(selector).catch(() => loadState()));
+
+    try {
+      return redactOutput(await handler(...args), await context());
+    } catch (error) {
+      if (error instanceof Error) {
+        error.message = redactText(error.message, await context());
+      }
+      throw error;
+    }
+  };
+}
+
+const projectSchema = z.string().optional()
+  .describe('Project root path, or a project key/folder name from list-all-managed-processes (defaults to this project)');
+
+const startResultSchema = z.object({
+  name: z.string(),
+  status: z.enum(['started', 'already-running']),
+  readyInMs: z.number().optional(),
+  url: z.string().optional(),
+  port: z.number().optional(),
+  reassignedFrom: z.number().optional()
+});
+
+const endpointSchema = z.object({
+  urls: z.array(z.string()),
+  port: z.number().optional(),
+  source: z.enum(['log', 'probe', 'config']),
+  detectedAt: z.string()
+});
+
+const healthProbeSchema = z.object({
+  target: z.string(),
+  ok: z.boolean(),
+  latencyMs: z.number(),
+  error: z.string().optional(),
+  checkedAt: z.string()
+});
+
+const processEventSchema = z.object({
+  type: z.enum(['start', 'restart', 'stop', 'exit', 'crash']),
+  at: z.string(),
+  pid: z.number().optional(),
+  exitCode: z.number().nullable().optional(),
+  signal: z.string().nullable().optional(),
+  uptimeMs: z.number().optional(),
+  restarts: z.number().optional(),
+  autorestarted: z.boolean().optional(),
+  reason: z.string().optional(),
+  logOffsets: z.object({ out: z.number(), error: z.number() }).optional(),
+  logTail: z.string().optional()
+});
+
+const limitBreachSchema = z.object({
+  at: z.string(),
+  limit: z.enum(['memory', 'cpu']),
+  value: z.number(),
+  threshold: z.number(),
+  windowMs: z.number().optional(),
+  action: z.enum(LIMIT_ACTIONS),
+  pid: z.number().optional(),
+  error: z.string().optional()
+});
+
+// Stored registration as echoed back by register/update tools
+const managedProcessSchema = z.object({
+  name: z.string(),
+  script: z.string(),
+  cwd: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  envFiles: z.array(z.string()).optional(),
+  redactionAllowlist: z.array(z.string()).optional(),
+  interpreter: z.string().optional(),
+  instances: z.number().optional(),
+  watch: watchSchema.optional(),
+  autorestart: z.boolean().optional(),
+  interactive: z.boolean().optional(),
+  backend: z.enum(BACKEND_KINDS).optional(),
+  readiness: readinessSchema.optional(),
+  healthChecks: z.array(healthCheckSchema).optional(),
+  dependsOn: z.array(z.string()).optional(),
+  groups: z.array(z.string()).optional(),
+  port: z.number().optional(),
+  portEnv: z.string().optional(),
+  autoAssignPort: z.boolean().optional(),
+  maxMemory: z.string().optional(),
+  maxCpuPercent: z.number().optional(),
+  cpuWindowMs: z.number().optional(),
+  limitAction: z.enum(LIMIT_ACTIONS).optional(),
+  logRetention: logRetentionSchema.optional()
+});
+
 /**
  * Tool: get-managed-processes
  * Returns registered servers and their current status
@@ -114,51 +623,82 @@ server.registerTool(
   {
     title: 'List Managed Servers',
     description: 'List all registered development servers and their current status',
-    inputSchema: {},
+    inputSchema: {
+      group: z.string().optional().describe('Only list processes in this group'),
+      project: projectSchema
+    },
     outputSchema: {
       servers: z.array(z.object({
         name: z.string(),
+        backend: z.enum(BACKEND_KINDS),
         status: z.string(),
+        health: z.enum(HEALTH_STATUSES),
+        healthProbe: healthProbeSchema.optional(),
         memory: z.string().optional(),
         script: z.string(),
-        cwd: z.string().optional()
+        cwd: z.string().optional(),
+        groups: z.array(z.string()).optional(),
+        url: z.string().optional(),
+        endpoint: endpointSchema.optional(),
+        lastCrash: processEventSchema.optional(),
+        lastLimitBreach: limitBreachSchema.optional(),
+        limitBreaches: z.number().optional()
       })),
+      project: z.object({ root: z.string(), key: z.string() }),
       lastSynced: z.string().optional()
     }
   },
-  async () => {
-    await loadState();
+  withRedaction(async ({ project, group }) => {
+    const session = await loadState(project);
 
-    let pm2ProcessMap: Map<string, any> = new Map();
-    try {
-      const stdout = await runPm2('pm2 jlist');
-      const parsed = JSON.parse(stdout);
-      parsed.forEach((p: any) => {
-        pm2ProcessMap.set(p.name, p);
-      });
-    } catch (error) {
-      // Process manager not available; mark all as stopped
+    syncMonitors(session);
+
+    const configs = selectProcesses(session.state.managedProcesses, group)
+      .map(name => session.state.managedProcesses[name]);
+    const liveInfo = await collectProcessInfo(session, configs);
+
+    let historyChanged = false;
+    for (const config of configs) {
+      const { backend, info } = liveInfo.get(config.name)!;
+      historyChanged = (await reconcileHistory(config, backend, info)) || historyChanged;
+    }
+    if (historyChanged) {
+      await persistState(session);
     }
 
-    const servers = Object.values(serverState.managedProcesses).map(config => {
-      const pm2Info = pm2ProcessMap.get(config.name);
-      const status = pm2Info?.pm2_env?.status || 'stopped';
-      const memory = pm2Info?.monit?.memory
-        ? `${Math.round(pm2Info.monit.memory / 1024 / 1024)}MB`
+    const servers = configs.map(config => {
+      const { backend, info } = liveInfo.get(config.name)!;
+      const status = info?.status || 'stopped';
+      const memory = info?.memory
+        ? `${Math.round(info.memory / 1024 / 1024)}MB`
         : undefined;
+      const health = getHealthReport(config.name, status, session.project.key);
 
       return {
         name: config.name,
+        backend: backend.kind,
         status,
+        health: health.status,
+        healthProbe: health.lastProbe,
         memory,
         script: config.script,
-        cwd: config.cwd
+        cwd: config.cwd,
+        groups: config.groups,
+        // Only a running server has a meaningful address
+        url: status === 'online' ? config.endpoint?.urls[0] : undefined,
+        endpoint: status === 'online' ? config.endpoint : undefined,
+        // Summary only; the captured log tail is available from get-process-history
+        lastCrash: withoutLogTail(getLastCrash(config)),
+        // Why a server may have been recycled behind the agent's back
+        lastLimitBreach: config.limitBreaches?.[config.limitBreaches.length - 1],
+        limitBreaches: config.limitBreaches?.length
       };
     });
 
     const output = {
       servers,
-      lastSynced: serverState.lastSynced?.toISOString()
+      project: { root: session.project.root, key: session.project.key },
+      lastSynced: session.state.lastSynced?.toISOString()
     };
 
     return {
@@ -168,7 +708,81 @@ server.registerTool(
       }],
       structuredContent: output
     };
-  }
+  })
+);
+
+/**
+ * Tool: list-all-managed-processes
+ * Registered servers of every project this machine has managed
+ */
+server.registerTool(
+  'list-all-managed-processes',
+  {
+    title: 'List Servers Across Projects',
+    description: 'List the registered development servers of every known project (each project root used with this MCP) with their live status and backend process names',
+    inputSchema: {},
+    outputSchema: {
+      projects: z.array(z.object({
+        root: z.string(),
+        key: z.string(),
+        isDefault: z.boolean(),
+        servers: z.array(z.object({
+          name: z.string(),
+          backendName: z.string(),
+          backend: z.enum(BACKEND_KINDS),
+          status: z.string(),
+          url: z.string().optional()
+        }))
+      }))
+    }
+  },
+  withRedaction(async () => {
+    const known = await listKnownProjects();
+    const roots = [...new Set([DEFAULT_PROJECT.root, ...known.map(project => project.root)])];
+
+    // Read-only: other projects' registries are listed without loading them into this session
+    const projects = [];
+    for (const root of roots) {
+      const project = projectContext(root);
+      const state = await readProjectState(project);
+      const configs = Object.values(state.managedProcesses);
+      const liveInfo = await collectProcessInfo({ project, state }, configs);
+
+      // Each project is masked with its own secrets and allowlists
+      projects.push(redactOutput({
+        root,
+        key: project.key,
+        isDefault: root === DEFAULT_PROJECT.root,
+        servers: configs.map(config => {
+          const { backend, info } = liveInfo.get(config.name)!;
+          const status = info?.status || 'stopped';
+          return {
+            name: config.name,
+            backendName: namespacedName(project, config.name),
+            backend: backend.kind,
+            status,
+            url: status === 'online' ? config.endpoint?.urls[0] : undefined
+          };
+        })
+      }, await redactionContextFor({ project, state })));
+    }
+
+    const output = { projects };
+    const text = projects.map(project => {
+      const servers = project.servers.length > 0
+        ? project.servers.map(entry => `  - ${entry.name}: ${entry.status}${entry.url ? ` (${entry.url})` : ''}`).join('\n')
+        : '  (no servers registered)';
+      return `${project.key}${project.isDefault ? ' [default]' : ''} ${project.root}\n${servers}`;
+    }).join('\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Projects:\n${text}`
+      }],
+      structuredContent: output
+    };
+  })
 );
 
 /**
@@ -181,34 +795,41 @@ server.registerTool(
     title: 'Register Development Server',
     description: 'Register a new development server to be managed by this MCP',
     inputSchema: {
-      name: z.string().describe('Unique server name'),
+      name: processNameSchema.describe('Unique server name'),
       script: z.string().describe('Command or script to run'),
       cwd: z.string().optional().describe('Working directory for the process'),
       args: z.array(z.string()).optional().describe('Arguments passed to the script'),
-      env: z.record(z.string()).optional().describe('Environment variables for the server'),
+      env: z.record(z.string()).optional().describe('Environment variables for the server; values may reference ${VAR} or ${processes.<name>.port|url|host}'),
+      envFiles: z.array(z.string()).optional().describe('dotenv files relative to cwd (e.g. [".env", ".env.local"]); later files win, env wins over all'),
+      redactionAllowlist: z.array(z.string()).optional().describe('Env keys that look sensitive (*_KEY, *TOKEN*, ...) but may be shown in tool output'),
       interpreter: z.string().optional().describe('Interpreter to use (e.g., node, python)'),
       instances: z.number().optional().describe('Number of instances for cluster mode'),
-      watch: z.boolean().optional().describe('Enable watch mode'),
+      watch: watchSchema.optional().describe('Restart on file changes: true (everything under cwd except node_modules, .git, build output, logs) or { include, ignore, debounceMs, restartOn }'),
       autorestart: z.boolean().optional().describe('Enable autorestart'),
-      startImmediately: z.boolean().optional().default(true).describe('Start the server right after registration')
+      interactive: z.boolean().optional().describe('Keep stdin open so send-process-input can type into the server (answer prompts, press dev server shortcuts)'),
+      backend: z.enum(BACKEND_KINDS).optional().describe('Process backend (pm2 or native); defaults to the project setting'),
+      readiness: readinessSchema.optional().describe('How start/restart decide the server is ready (log regex, TCP port or HTTP URL)'),
+      healthChecks: z.array(healthCheckSchema).optional().describe('HTTP/TCP probes run continuously while the server is online'),
+      dependsOn: z.array(processNameSchema).optional().describe('Registered processes that must be ready before this one starts'),
+      groups: z.array(z.string()).optional().describe('Group names for bulk start/stop/restart (e.g. "backend")'),
+      port: z.number().optional().describe('Port the server listens on; checked for conflicts before starting'),
+      portEnv: z.string().optional().describe('Env key that carries the port (default PORT)'),
+      autoAssignPort: z.boolean().optional().describe('On a port conflict, start on a free port injected via the port env key'),
+      maxMemory: memorySizeSchema.optional().describe('RSS limit such as "1.5G" or "800M"'),
+      maxCpuPercent: z.number().positive().optional().describe('CPU limit in percent of one core, breached when exceeded for cpuWindowMs'),
+      cpuWindowMs: z.number().int().positive().optional().describe('How long CPU must stay above maxCpuPercent (default 60000)'),
+      limitAction: z.enum(LIMIT_ACTIONS).optional().describe('On a limit breach: restart (default), stop, or only flag it'),
+      logRetention: logRetentionSchema.optional().describe('Log rotation: { maxSize, maxFiles, maxAgeDays } (default 10M, 5 archives, 14 days)'),
+      startImmediately: z.boolean().optional().default(true).describe('Start the server right after registration'),
+      project: projectSchema
     },
     outputSchema: {
       success: z.boolean(),
-      managedProcess: z.object({
-        name: z.string(),
-        script: z.string(),
-        cwd: z.string().optional(),
-        args: z.array(z.string()).optional(),
-        env: z.record(z.string()).optional(),
-        interpreter: z.string().optional(),
-        instances: z.number().optional(),
-        watch: z.boolean().optional(),
-        autorestart: z.boolean().optional()
-      })
+      managedProcess: managedProcessSchema
     }
   },
-  async ({ startImmediately = true, ...params }) => {
-    await loadState();
+  withRedaction(async ({ project, startImmediately = true, ...params }) => {
+    const session = await loadState(project);
 
     const config: ManagedProcessConfig = {
       name: params.name,
@@ -216,17 +837,38 @@ server.registerTool(
       cwd: params.cwd,
       args: params.args,
       env: params.env,
+      envFiles: params.envFiles,
+      redactionAllowlist: params.redactionAllowlist,
       interpreter: params.interpreter,
       instances: params.instances,
       watch: params.watch,
-      autorestart: params.autorestart
+      autorestart: params.autorestart,
+      interactive: params.interactive,
+      backend: params.backend,
+      readiness: params.readiness,
+      healthChecks: params.healthChecks,
+      dependsOn: params.dependsOn,
+      groups: params.groups,
+      port: params.port,
+      portEnv: params.portEnv,
+      autoAssignPort: params.autoAssignPort,
+      maxMemory: params.maxMemory,
+      maxCpuPercent: params.maxCpuPercent,
+      cpuWindowMs: params.cpuWindowMs,
+      limitAction: params.limitAction,
+      logRetention: params.logRetention
     };
 
-    serverState.managedProcesses[config.name] = config;
-    await persistState();
+    validateDependencies({ ...session.state.managedProcesses, [config.name]: config }, config.name);
+
+    session.state.managedProcesses[config.name] = config;
+    await persistState(session);
+    syncMonitors(session);
 
     if (startImmediately) {
-      await startPm2Process(config);
+      for (const processName of getStartOrder(session.state.managedProcesses, config.name)) {
+        await startAndWait(session, session.state.managedProcesses[processName]);
+      }
     }
 
     const output = {
@@ -241,7 +883,88 @@ server.registerTool(
       }],
       structuredContent: output
     };
-  }
+  })
+);
+
+/**
+ * Tool: discover-dev-servers
+ * Infers dev servers from the project tree and optionally registers them
+ */
+server.registerTool(
+  'discover-dev-servers',
+  {
+    title: 'Discover Development Servers',
+    description: 'Scan the project (package.json scripts across workspaces/monorepos, next/vite/... configs, Procfiles, Django manage.py, uvicorn apps) and propose server registrations with the inferred script, args, cwd and port. Pass `register` to register selected candidates.',
+    inputSchema: {
+      root: z.string().optional().describe('Directory to scan (defaults to the project directory)'),
+      maxDepth: z.number().int().min(0).max(8).optional().default(DEFAULT_DISCOVERY_DEPTH).describe('How many directory levels to scan'),
+      register: z.array(processNameSchema).optional().describe('Candidate names to register'),
+      startImmediately: z.boolean().optional().default(false).describe('Start servers right after registering them'),
+      project: projectSchema
+    },
+    outputSchema: {
+      candidates: z.array(z.object({
+        name: z.string(),
+        framework: z.string().optional(),
+        source: z.enum(['package.json', 'Procfile', 'manage.py', 'uvicorn']),
+        sourceFile: z.string(),
+        command: z.string(),
+        confidence: z.enum(['high', 'medium', 'low']),
+        registeredAs: z.string().optional(),
+        config: managedProcessSchema
+      })),
+      registered: z.array(z.string())
+    }
+  },
+  withRedaction(async ({ project, root, maxDepth = DEFAULT_DISCOVERY_DEPTH, register = [], startImmediately = false }) => {
+    const session = await loadState(project);
+
+    const scanRoot = path.resolve(session.project.root, root || '.');
+    const candidates = await discoverCandidates(session, scanRoot, maxDepth);
+
+    const unknown = register.filter(name => !candidates.some(candidate => candidate.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`No discovered server named: ${unknown.join(', ')}`);
+    }
+
+    const registered: string[] = [];
+    for (const candidate of candidates.filter(candidate => register.includes(candidate.name))) {
+      if (candidate.registeredAs || session.state.managedProcesses[candidate.name]) {
+        // Never overwrite an existing registration
+        continue;
+      }
+      session.state.managedProcesses[candidate.name] = { ...candidate.config };
+      candidate.registeredAs = candidate.name;
+      registered.push(candidate.name);
+    }
+
+    if (registered.length > 0) {
+      await persistState(session);
+      syncMonitors(session);
+      if (startImmediately) {
+        for (const name of registered) {
+          await startAndWait(session, session.state.managedProcesses[name]);
+        }
+      }
+    }
+
+    const output = { candidates, registered };
+    const lines = candidates.map(candidate => {
+      const where = candidate.config.port ? ` (port ${candidate.config.port})` : '';
+      const status = candidate.registeredAs ? ` [registered as '${candidate.registeredAs}']` : '';
+      return `- ${candidate.name}: ${candidate.command} in ${candidate.sourceFile}${where}, ${candidate.framework || 'unknown framework'}, ${candidate.confidence} confidence${status}`;
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: candidates.length > 0
+          ? `Discovered ${candidates.length} dev server(s) in ${scanRoot}:\n${lines.join('\n')}${registered.length > 0 ? `\n\nRegistered: ${registered.join(', ')}` : ''}`
+          : `No dev servers discovered in ${scanRoot}`
+      }],
+      structuredContent: output
+    };
+  })
 );
 
 /**
@@ -254,525 +977,1307 @@ server.registerTool(
     title: 'Update Managed Process',
     description: 'Update the stored configuration for a managed process',
     inputSchema: {
-      name: z.string().describe('Name of the managed process to update'),
+      name: processNameSchema.describe('Name of the managed process to update'),
       script: z.string().optional(),
       cwd: z.string().optional(),
       args: z.array(z.string()).optional(),
       env: z.record(z.string()).optional(),
+      envFiles: z.array(z.string()).optional(),
+      redactionAllowlist: z.array(z.string()).optional(),
       interpreter: z.string().optional(),
       instances: z.number().optional(),
-      watch: z.boolean().optional(),
+      watch: watchSchema.optional(),
       autorestart: z.boolean().optional(),
-      applyToPm2: z.boolean().optional().default(false).describe('Restart server with new settings immediately')
+      interactive: z.boolean().optional(),
+      backend: z.enum(BACKEND_KINDS).optional(),
+      readiness: readinessSchema.optional(),
+      healthChecks: z.array(healthCheckSchema).optional(),
+      dependsOn: z.array(processNameSchema).optional(),
+      groups: z.array(z.string()).optional(),
+      port: z.number().optional(),
+      portEnv: z.string().optional(),
+      autoAssignPort: z.boolean().optional(),
+      maxMemory: memorySizeSchema.optional(),
+      maxCpuPercent: z.number().positive().optional(),
+      cpuWindowMs: z.number().int().positive().optional(),
+      limitAction: z.enum(LIMIT_ACTIONS).optional(),
+      logRetention: logRetentionSchema.optional(),
+      applyToPm2: z.boolean().optional().default(false).describe('Restart server with new settings immediately'),
+      project: projectSchema
     },
     outputSchema: {
       success: z.boolean(),
-      managedProcess: z.object({
-        name: z.string(),
-        script: z.string(),
-        cwd: z.string().optional(),
-        args: z.array(z.string()).optional(),
-        env: z.record(z.string()).optional(),
-        interpreter: z.string().optional(),
-        instances: z.number().optional(),
-        watch: z.boolean().optional(),
-        autorestart: z.boolean().optional()
-      })
+      managedProcess: managedProcessSchema
     }
   },
-  async ({ name, applyToPm2 = false, ...updates }) => {
-    await loadState();
+  withRedaction(async ({ project, name, applyToPm2 = false, ...updates }) => {
+    const session = await loadState(project);
 
-    const existing = serverState.managedProcesses[name];
+    const existing = session.state.managedProcesses[name];
     if (!existing) {
       throw new Error(`Managed process '${name}' is not registered. Use register-managed-process first.`);
     }
 
+    validateDependencies({ ...session.state.managedProcesses, [name]: { ...existing, ...updates, name } }, name);
+
+    if (applyToPm2) {
+      const previousBackend = await resolveBackend(existing, session);
+      const backend = await resolveBackend({ ...existing, ...updates, name }, session);
+      if (previousBackend !== backend || backend.kind === 'pm2') {
+        // A new backend has no entry yet and PM2 keeps the old script, args and
+        // interpreter on restart, so the old entry goes and the restart recreates it
+        await stopProcess(session, name, 'settings updated');
+        await previousBackend.delete(name);
+      }
+    }
+
+    // Stopping recorded history, so build on the current registration
     const updated: ManagedProcessConfig = {
-      ...existing,
+      ...session.state.managedProcesses[name],
       ...updates,
       name
     };
+    session.state.managedProcesses[name] = updated;
+    await persistState(session);
+    syncMonitors(session);
 
-    serverState.managedProcesses[name] = updated;
-    await persistState();
-
-    if (applyToPm2) {
-      // Restart process with new configuration
-      await deletePm2Process(name);
-      await startPm2Process(updated);
-    }
+    // Same port check, readiness wait and endpoint detection as any restart
+    const restarted = applyToPm2 ? await restartAndWait(session, name, 'settings updated') : undefined;
 
     const output = {
       success: true,
       managedProcess: updated
     };
+    const restartInfo = restarted
+      ? ` and restarted with new settings${restarted.url ? ` on ${restarted.url}` : ''}${restarted.readyInMs !== undefined ? ` (ready in ${restarted.readyInMs}ms)` : ''}`
+      : '';
 
     return {
       content: [{
         type: 'text',
-        text: `Server '${name}' updated${applyToPm2 ? ' and restarted with new settings' : ''}`
+        text: `Server '${name}' updated${restartInfo}`
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
 /**
- * Helper: check if a process exists in PM2
+ * Tool: start-managed-process
+ * Starts a registered development server
  */
-async function getPm2ProcessInfo(name: string): Promise<any | null> {
-  try {
-    const stdout = await runPm2('pm2 jlist');
-    const processes = JSON.parse(stdout);
-    return processes.find((p: any) => p.name === name) || null;
-  } catch (error) {
-    return null;
-  }
-}
+server.registerTool(
+  'start-managed-process',
+  {
+    title: 'Start Development Server',
+    description: 'Start a registered development server',
+    inputSchema: {
+      name: processNameSchema.describe('Name of the server to start'),
+      project: projectSchema
+    },
+    outputSchema: {
+      success: z.boolean(),
+      status: z.string(),
+      readyInMs: z.number().optional(),
+      url: z.string().optional(),
+      port: z.number().optional(),
+      reassignedFrom: z.number().optional(),
+      dependencies: z.array(startResultSchema)
+    }
+  },
+  withRedaction(async ({ project, name }) => {
+    const session = await loadState(project);
+    const config = session.state.managedProcesses[name];
+    if (!config) {
+      throw new Error(`Server '${name}' is not registered. Use register-managed-process first.`);
+    }
 
-/**
- * Helper: start process via PM2 using stored configuration
- * Prevents duplicate instances by checking if process already exists
- */
-async function startPm2Process(config: ManagedProcessConfig) {
-  // Check if process already exists in PM2
-  const existingProcess = await getPm2ProcessInfo(config.name);
+    // Dependencies come first, each one ready before the next starts
+    const order = getStartOrder(session.state.managedProcesses, name);
+    const results: StartResult[] = [];
+    for (const processName of order) {
+      results.push(await startAndWait(session, session.state.managedProcesses[processName]));
+    }
 
-  if (existingProcess) {
-    const status = existingProcess.pm2_env?.status;
+    const result = results[results.length - 1];
+    const dependencies = results.slice(0, -1);
 
-    if (status === 'online') {
-      // Process already running, don't create duplicate
-      return;
-    } else if (status === 'stopped') {
-      // Process exists but stopped, restart it instead
-      await restartPm2Process(config.name);
-      return;
-    }
-    // If status is something else (errored, etc), delete and recreate
-    await deletePm2Process(config.name);
-  }
+    const output = {
+      success: true,
+      status: result.status,
+      readyInMs: result.readyInMs,
+      url: result.url,
+      port: result.port,
+      reassignedFrom: result.reassignedFrom,
+      dependencies
+    };
 
-  // Process doesn't exist, create it
-  const parts = ['pm2', 'start', config.script, '--name', config.name];
+    const portInfo = result.reassignedFrom
+      ? ` (port ${result.reassignedFrom} was busy, assigned ${result.port})`
+      : '';
 
-  if (config.interpreter) {
-    parts.push('--interpreter', config.interpreter);
-  }
-  if (config.cwd) {
-    parts.push('--cwd', config.cwd);
-  }
-  if (config.instances && config.instances > 0) {
-    parts.push('-i', String(config.instances));
-  }
-  if (config.watch === true) {
-    parts.push('--watch');
-  }
-  if (config.watch === false) {
-    parts.push('--no-watch');
-  }
+    const dependencyInfo = dependencies.length > 0
+      ? `\nDependencies: ${dependencies.map(dep => `${dep.name} (${dep.status})`).join(', ')}`
+      : '';
 
-  // Disable autorestart by default unless explicitly enabled
-  // This allows us to see when servers crash instead of hiding failures
-  if (config.autorestart === true) {
-    // Autorestart explicitly enabled, PM2 default behavior
-  } else {
-    // Default: disable autorestart to surface issues
-    parts.push('--no-autorestart');
-  }
+    return {
+      content: [{
+        type: 'text',
+        text: result.status === 'already-running'
+          ? `Server '${name}' is already running${dependencyInfo}`
+          : `Server '${name}' started${result.url ? ` on ${result.url}` : ''} (ready in ${result.readyInMs}ms)${portInfo}${dependencyInfo}`
+      }],
+      structuredContent: output
+    };
+  })
+);
 
-  if (config.args && config.args.length > 0) {
-    parts.push('--', ...config.args);
-  }
+/**
+ * Tool: stop-managed-process
+ * Stops a running development server
+ */
+server.registerTool(
+  'stop-managed-process',
+  {
+    title: 'Stop Development Server',
+    description: 'Stop a running development server',
+    inputSchema: {
+      name: processNameSchema.describe('Name of the server to stop'),
+      project: projectSchema
+    },
+    outputSchema: {
+      success: z.boolean(),
+      stopped: z.array(z.string())
+    }
+  },
+  withRedaction(async ({ project, name }) => {
+    const session = await loadState(project);
 
-  return runPm2(parts.join(' '), {
-    cwd: config.cwd,
-    env: {
-      ...(config.env || {})
+    // Dependents go down first so nothing is left talking to a stopped service
+    const order = getStopOrder(session.state.managedProcesses, name);
+    for (const processName of order) {
+      await stopProcess(session, processName);
     }
-  });
-}
 
-async function deletePm2Process(name: string) {
-  try {
-    await runPm2(`pm2 delete ${name}`);
-  } catch (error) {
-    // Ignore if process not found
+    const output = {
+      success: true,
+      stopped: order
+    };
+
+    const dependents = order.slice(0, -1);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Server '${name}' stopped${dependents.length > 0 ? ` (dependents stopped first: ${dependents.join(', ')})` : ''}`
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+/**
+ * Tool: restart-managed-process
+ * Restarts a running development server
+ */
+server.registerTool(
+  'restart-managed-process',
+  {
+    title: 'Restart Development Server',
+    description: 'Restart a running development server',
+    inputSchema: {
+      name: processNameSchema.describe('Name of the server to restart'),
+      project: projectSchema
+    },
+    outputSchema: {
+      success: z.boolean(),
+      status: z.string(),
+      readyInMs: z.number().optional(),
+      url: z.string().optional()
+    }
+  },
+  withRedaction(async ({ project, name }) => {
+    const session = await loadState(project);
+    const result = await restartAndWait(session, name);
+
+    const output = {
+      success: true,
+      status: 'restarted',
+      readyInMs: result.readyInMs,
+      url: result.url
+    };
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Server '${name}' restarted${result.url ? ` on ${result.url}` : ''}${result.readyInMs !== undefined ? ` (ready in ${result.readyInMs}ms)` : ''}`
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+type BulkAction = 'start' | 'stop' | 'restart';
+
+/**
+ * Helper: apply a lifecycle action to many processes. The selection is
+ * widened along dependency edges (start pulls in dependencies, stop pulls in
+ * dependents) and then run in dependency waves with bounded concurrency.
+ */
+async function runBulkAction(session: ProjectSession, action: BulkAction, names: string[], concurrency: number): Promise<BulkResult[]> {
+  const registry = session.state.managedProcesses;
+  let targets = names;
+  if (action === 'start') {
+    targets = [...new Set(names.flatMap(name => getStartOrder(registry, name)))];
+  } else if (action === 'stop') {
+    targets = [...new Set(names.flatMap(name => getStopOrder(registry, name)))];
   }
-}
 
-async function stopPm2Process(name: string) {
-  try {
-    await runPm2(`pm2 stop ${name}`);
-  } catch (error) {
-    // Ignore if process not found
+  const waves = groupIntoLevels(registry, targets, action === 'stop' ? 'dependents' : 'dependencies');
+  const results = new Map<string, BulkResult>();
+
+  for (const wave of waves) {
+    const waveResults = await mapWithConcurrency(wave, concurrency, async (name): Promise<BulkResult> => {
+      const failedDependency = action !== 'stop'
+        ? registry[name].dependsOn?.find(dep => results.get(dep)?.success === false)
+        : undefined;
+      if (failedDependency) {
+        return { name, success: false, error: `dependency '${failedDependency}' failed` };
+      }
+
+      try {
+        if (action === 'start') {
+          const result = await startAndWait(session, registry[name]);
+          return { name, success: true, status: result.status };
+        }
+        if (action === 'stop') {
+          await stopProcess(session, name);
+          return { name, success: true, status: 'stopped' };
+        }
+        await restartAndWait(session, name);
+        return { name, success: true, status: 'restarted' };
+      } catch (error) {
+        return { name, success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+    waveResults.forEach(result => results.set(result.name, result));
   }
-}
 
-async function restartPm2Process(name: string) {
-  return runPm2(`pm2 restart ${name}`);
+  return [...results.values()];
 }
 
-async function describePm2Process(name: string) {
-  const stdout = await runPm2(`pm2 describe ${name}`);
-  return stdout;
+/**
+ * Helper: build the tool response shared by every bulk lifecycle tool
+ */
+async function bulkToolResponse(
+  action: BulkAction,
+  group: string | undefined,
+  concurrency: number,
+  project: string | undefined
+) {
+  const session = await loadState(project);
+
+  const names = selectProcesses(session.state.managedProcesses, group);
+  if (names.length === 0) {
+    throw new Error(group
+      ? `No registered processes in group '${group}'`
+      : 'No registered processes. Use register-managed-process first.');
+  }
+
+  const results = await runBulkAction(session, action, names, concurrency);
+  const output = {
+    success: results.every(result => result.success),
+    results
+  };
+
+  const summary = results
+    .map(result => `- ${result.name}: ${result.success ? result.status : `failed (${result.error})`}`)
+    .join('\n');
+
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `${action} ${group ? `group '${group}'` : 'all registered processes'}:\n${summary}`
+    }],
+    structuredContent: output
+  };
 }
 
+const bulkResultSchema = z.object({
+  name: z.string(),
+  success: z.boolean(),
+  status: z.string().optional(),
+  error: z.string().optional()
+});
+
 /**
- * Helper: Get the path to PM2 log files for a process
+ * Tools: <action>-group and <action>-all
+ * Bulk start/stop/restart over a group or every registered process
  */
-function getPm2LogPath(name: string, type: 'out' | 'error' = 'out'): string {
-  const pm2Home = process.env.PM2_HOME || path.join(os.homedir(), '.pm2');
-  const suffix = type === 'error' ? 'error.log' : 'out.log';
-  return path.join(pm2Home, 'logs', `${name}-${suffix}`);
+function registerBulkTools(action: BulkAction, verb: string) {
+  const concurrency = z.number().int().min(1).optional().default(DEFAULT_BULK_CONCURRENCY)
+    .describe('Maximum processes handled in parallel');
+
+  server.registerTool(
+    `${action}-group`,
+    {
+      title: `${verb} Process Group`,
+      description: `${verb} every registered process in a group, respecting dependencies`,
+      inputSchema: {
+        group: z.string().describe('Group name assigned at registration'),
+        concurrency,
+        project: projectSchema
+      },
+      outputSchema: {
+        success: z.boolean(),
+        results: z.array(bulkResultSchema)
+      }
+    },
+    withRedaction(async ({ group, concurrency = DEFAULT_BULK_CONCURRENCY, project }) => bulkToolResponse(action, group, concurrency, project))
+  );
+
+  server.registerTool(
+    `${action}-all`,
+    {
+      title: `${verb} All Processes`,
+      description: `${verb} every registered process, respecting dependencies`,
+      inputSchema: {
+        concurrency,
+        project: projectSchema
+      },
+      outputSchema: {
+        success: z.boolean(),
+        results: z.array(bulkResultSchema)
+      }
+    },
+    withRedaction(async ({ concurrency = DEFAULT_BULK_CONCURRENCY, project }) => bulkToolResponse(action, undefined, concurrency, project))
+  );
 }
 
+registerBulkTools('start', 'Start');
+registerBulkTools('stop', 'Stop');
+registerBulkTools('restart', 'Restart');
+
 /**
- * Tool: start-managed-process
- * Starts a registered development server
+ * Tool: delete-managed-process
+ * Unregisters and stops a development server
  */
 server.registerTool(
-  'start-managed-process',
+  'delete-managed-process',
   {
-    title: 'Start Development Server',
-    description: 'Start a registered development server',
+    title: 'Delete Development Server',
+    description: 'Delete a development server and remove it from tracking',
     inputSchema: {
-      name: z.string().describe('Name of the server to start')
+      name: processNameSchema.describe('Name of the server to delete'),
+      deleteFromPm2: z.boolean().optional().default(true).describe('Stop the running server as well'),
+      project: projectSchema
     },
     outputSchema: {
-      success: z.boolean(),
-      status: z.string()
+      success: z.boolean()
     }
   },
-  async ({ name }) => {
-    await loadState();
-    const config = serverState.managedProcesses[name];
-    if (!config) {
-      throw new Error(`Server '${name}' is not registered. Use register-managed-process first.`);
+  withRedaction(async ({ project, name, deleteFromPm2 = true }) => {
+    const session = await loadState(project);
+    assertNoDependents(session.state.managedProcesses, [name]);
+
+    if (deleteFromPm2) {
+      const backend = await backendFor(session, name);
+      await backend.delete(name);
     }
 
-    await startPm2Process(config);
+    delete session.state.managedProcesses[name];
+    await persistState(session);
+    syncMonitors(session);
 
-    // Initialize log offset after start
-    try {
-      const logPath = getPm2LogPath(name, 'out');
-      // Wait briefly for log file to be created
-      await new Promise(resolve => setTimeout(resolve, 500));
-      const stats = await fs.stat(logPath);
-      serverState.managedProcesses[name].logOffset = stats.size;
-      await persistState();
-    } catch (error) {
-      // Log file might not exist yet, will be 0 by default
-    }
+    const output = {
+      success: true
+    };
 
-    // Wait briefly and try to detect URL from logs
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    return {
+      content: [{
+        type: 'text',
+        text: `Server '${name}' deleted${deleteFromPm2 ? ' and stopped' : ''}`
+      }],
+      structuredContent: output
+    };
+  })
+);
 
-    let urlInfo = '';
-    try {
-      const logs = await runPm2(`pm2 logs ${name} --lines 100 --nostream`);
+/**
+ * Tool: describe-managed-process
+ * Provide detailed backend description for a managed process
+ */
+server.registerTool(
+  'describe-managed-process',
+  {
+    title: 'Describe Managed Process',
+    description: 'Get detailed backend (PM2 or native supervisor) information about a process',
+    inputSchema: {
+      name: processNameSchema.describe('Name of the process to describe'),
+      project: projectSchema
+    },
+    outputSchema: {
+      success: z.boolean(),
+      description: z.string()
+    }
+  },
+  withRedaction(async ({ project, name }) => {
+    const session = await loadState(project);
+    const backend = await backendFor(session, name);
+    const description = await backend.describe(name);
+    const output = {
+      success: true,
+      description
+    };
 
-      // Use linkifyjs to find all URLs in the logs
-      const links = linkify.find(logs, 'url');
+    return {
+      content: [{
+        type: 'text',
+        text: description
+      }],
+      structuredContent: output
+    };
+  })
+);
 
-      // Find first http/https URL (prioritize localhost, 127.0.0.1, 0.0.0.0)
-      const localUrl = links.find(link =>
-        link.href.includes('localhost') ||
-        link.href.includes('127.0.0.1') ||
-        link.href.includes('0.0.0.0')
-      );
+/**
+ * Tool: get-effective-env
+ * Show the environment a process starts with, values redacted
+ */
+server.registerTool(
+  'get-effective-env',
+  {
+    title: 'Get Effective Environment',
+    description: 'Show the environment a registered process is started with after merging envFiles and env and expanding ${...} references, with the source of every key. Values of sensitive keys are redacted unless the process allowlists them (redactionAllowlist).',
+    inputSchema: {
+      name: processNameSchema.describe('Server name'),
+      includeInherited: z.boolean().optional().default(false).describe('Also list variables inherited from the MCP environment'),
+      project: projectSchema
+    },
+    outputSchema: {
+      name: z.string(),
+      variables: z.array(z.object({
+        key: z.string(),
+        value: z.string(),
+        redacted: z.boolean(),
+        source: z.string(),
+        interpolated: z.boolean()
+      })),
+      files: z.array(z.object({
+        path: z.string(),
+        loaded: z.boolean(),
+        keys: z.number()
+      })),
+      unresolved: z.array(z.string())
+    }
+  },
+  withRedaction(async ({ project, name, includeInherited = false }) => {
+    const session = await loadState(project);
+
+    const config = session.state.managedProcesses[name];
+    if (!config) {
+      throw new Error(`Managed process '${name}' is not registered.`);
+    }
 
-      const foundUrl = localUrl || links[0];
-
-      if (foundUrl) {
-        // Clean up the URL (remove trailing slashes)
-        let url = foundUrl.href.replace(/\/+$/, '');
-        urlInfo = ` on ${url}`;
-      } else {
-        // Fallback: look for just port number
-        const portMatch = logs.match(/(?:port|Port|PORT)[\s:]+(\d{4,5})/);
-        if (portMatch) {
-          urlInfo = ` on http://localhost:${portMatch[1]}`;
+    const resolved = await resolveEnvironment(config, session.state.managedProcesses, session.project.root);
+    const entries: Array<[string, string, string]> = Object.entries(resolved.env)
+      .map(([key, value]) => [key, value, resolved.sources[key]]);
+    if (includeInherited) {
+      for (const [key, value] of Object.entries(process.env)) {
+        if (!(key in resolved.env) && value !== undefined) {
+          entries.push([key, value, 'inherited']);
         }
       }
-    } catch (error) {
-      // Couldn't get logs, continue without URL info
     }
 
+    const variables = entries
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value, source]) => ({
+        key,
+        value: isSensitiveKey(key, config.redactionAllowlist) ? REDACTED : value,
+        redacted: isSensitiveKey(key, config.redactionAllowlist),
+        source,
+        interpolated: resolved.interpolated.includes(key)
+      }));
+
     const output = {
-      success: true,
-      status: 'started'
+      name,
+      variables,
+      files: resolved.files,
+      unresolved: resolved.unresolved
     };
 
+    const lines = variables.map(variable =>
+      `${variable.key}=${variable.value}  (${variable.source}${variable.interpolated ? ', interpolated' : ''})`
+    );
+    const missingFiles = resolved.files.filter(file => !file.loaded).map(file => file.path);
+    const notes = [
+      missingFiles.length > 0 ? `Env files not found: ${missingFiles.join(', ')}` : '',
+      resolved.unresolved.length > 0 ? `Unresolved references: ${resolved.unresolved.join(', ')}` : ''
+    ].filter(Boolean);
+
     return {
       content: [{
         type: 'text',
-        text: `Server '${name}' started${urlInfo}`
+        text: `Effective environment for '${name}':\n${lines.join('\n') || '(no variables set by the registry)'}${notes.length > 0 ? `\n\n${notes.join('\n')}` : ''}`
       }],
       structuredContent: output
     };
+  })
+);
+
+/**
+ * Tool: get-process-history
+ * Lifecycle events (starts, stops, exits, crashes) recorded for a server
+ */
+server.registerTool(
+  'get-process-history',
+  {
+    title: 'Get Server History',
+    description: 'Show the lifecycle history of a registered server: starts, restarts, intentional stops, and exits/crashes with exit code, signal, uptime, restart count and the log tail captured at the crash',
+    inputSchema: {
+      name: processNameSchema.describe('Server name'),
+      limit: z.number().int().min(1).max(50).optional().default(20).describe('Number of most recent events to return'),
+      includeLogs: z.boolean().optional().default(true).describe('Include log tails captured at crashes'),
+      project: projectSchema
+    },
+    outputSchema: {
+      name: z.string(),
+      events: z.array(processEventSchema),
+      crashes: z.number(),
+      lastCrash: processEventSchema.optional()
+    }
+  },
+  withRedaction(async ({ project, name, limit = 20, includeLogs = true }) => {
+    const session = await loadState(project);
+
+    const config = session.state.managedProcesses[name];
+    if (!config) {
+      throw new Error(`Managed process '${name}' is not registered.`);
+    }
+
+    const backend = await resolveBackend(config, session);
+    if (await reconcileHistory(config, backend, await backend.getInfo(name))) {
+      await persistState(session);
+    }
+
+    const history = config.history || [];
+    // Newest first
+    const events = history.slice(-limit).reverse()
+      .map((event): ProcessEvent => includeLogs ? event : withoutLogTail(event)!);
+    const lastCrash = getLastCrash(config);
+
+    const output = {
+      name,
+      events,
+      crashes: history.filter(event => event.type === 'crash').length,
+      lastCrash: includeLogs ? lastCrash : withoutLogTail(lastCrash)
+    };
+
+    const text = events.length > 0
+      ? events.map(event => {
+        const line = `- ${describeEvent(event)}`;
+        return event.logTail ? `${line}\n  Last log lines:\n${event.logTail.replace(/^/gm, '    ')}` : line;
+      }).join('\n')
+      : 'No lifecycle events recorded yet';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `History for '${name}' (newest first):\n${text}`
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+const seriesStatsSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+  avg: z.number(),
+  latest: z.number()
+});
+
+/**
+ * Helper: evenly spaced subset of samples, always keeping the newest
+ */
+function downsample<T>(items: T[], maxPoints: number): T[] {
+  if (items.length <= maxPoints) {
+    return items;
   }
+  const step = (items.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, index) => items[Math.round(index * step)]);
+}
+
+/**
+ * Tool: get-process-metrics
+ * CPU and memory time series with a memory trend classification
+ */
+server.registerTool(
+  'get-process-metrics',
+  {
+    title: 'Get Process Metrics',
+    description: `CPU and memory (RSS) of a registered server sampled every ${METRICS_INTERVAL_MS / 1000}s while this MCP runs (last ${MAX_SAMPLES} samples): the series, min/max/avg, and a memory trend (stable, growing, shrinking, fluctuating) that flags steady growth as a suspected leak`,
+    inputSchema: {
+      name: processNameSchema.describe('Server name'),
+      windowMinutes: z.number().positive().optional().describe('Only use samples from the last N minutes (default: all kept samples)'),
+      includeSamples: z.boolean().optional().default(true).describe('Return the sample series, not just the summary'),
+      maxPoints: z.number().int().min(2).max(MAX_SAMPLES).optional().default(60).describe('Downsample the returned series to at most this many points'),
+      project: projectSchema
+    },
+    outputSchema: {
+      name: z.string(),
+      intervalMs: z.number(),
+      sampleCount: z.number(),
+      cpu: seriesStatsSchema.optional().describe('Percent of one core'),
+      memory: seriesStatsSchema.optional().describe('RSS bytes'),
+      memoryTrend: z.object({
+        classification: z.enum(['insufficient-data', 'stable', 'growing', 'shrinking', 'fluctuating']),
+        slopeBytesPerMinute: z.number().optional(),
+        growthPercent: z.number().optional(),
+        fit: z.number().optional(),
+        spanMs: z.number(),
+        leakSuspected: z.boolean()
+      }),
+      samples: z.array(z.object({
+        at: z.string(),
+        pid: z.number().optional(),
+        cpu: z.number().optional(),
+        memory: z.number().optional()
+      })).optional()
+    }
+  },
+  withRedaction(async ({ project, name, windowMinutes, includeSamples = true, maxPoints = 60 }) => {
+    const session = await loadState(project);
+
+    if (!session.state.managedProcesses[name]) {
+      throw new Error(`Managed process '${name}' is not registered.`);
+    }
+
+    const samples = getSamples(session.project.key, name, windowMinutes ? windowMinutes * 60000 : undefined);
+    const cpu = summarize(samples.map(sample => sample.cpu));
+    const memory = summarize(samples.map(sample => sample.memory));
+    const memoryTrend = classifyMemoryTrend(samples);
+
+    const output = {
+      name,
+      intervalMs: METRICS_INTERVAL_MS,
+      sampleCount: samples.length,
+      cpu,
+      memory,
+      memoryTrend,
+      samples: includeSamples
+        ? downsample(samples, maxPoints).map(sample => ({
+          at: new Date(sample.at).toISOString(),
+          pid: sample.pid,
+          cpu: sample.cpu,
+          memory: sample.memory
+        }))
+        : undefined
+    };
+
+    const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+    const lines = samples.length === 0
+      ? [`No samples for '${name}' yet; it is sampled every ${METRICS_INTERVAL_MS / 1000}s while online.`]
+      : [
+        `Metrics for '${name}' (${samples.length} samples over ${((samples[samples.length - 1].at - samples[0].at) / 60000).toFixed(1)} min):`,
+        cpu ? `CPU: latest ${cpu.latest}%, min ${cpu.min}%, max ${cpu.max}%, avg ${cpu.avg.toFixed(1)}%` : 'CPU: n/a',
+        memory ? `Memory: latest ${mb(memory.latest)}, min ${mb(memory.min)}, max ${mb(memory.max)}, avg ${mb(memory.avg)}` : 'Memory: n/a',
+        `Memory trend: ${memoryTrend.classification}` + (memoryTrend.slopeBytesPerMinute !== undefined
+          ? ` (${mb(memoryTrend.slopeBytesPerMinute)}/min, ${memoryTrend.growthPercent}% over the run, fit ${memoryTrend.fit})`
+          : ''),
+        ...(memoryTrend.leakSuspected ? ['⚠️ Memory grows steadily: possible leak (e.g. HMR modules or caches retained across reloads)'] : [])
+      ];
+
+    return {
+      content: [{
+        type: 'text',
+        text: lines.join('\n')
+      }],
+      structuredContent: output
+    };
+  })
 );
 
+const taskRunSchema = z.object({
+  id: z.string(),
+  status: z.enum(['running', 'succeeded', 'failed', 'timed-out', 'interrupted']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  durationMs: z.number().optional(),
+  pid: z.number().optional(),
+  exitCode: z.number().nullable().optional(),
+  signal: z.string().nullable().optional(),
+  outLog: z.string(),
+  errorLog: z.string()
+});
+
 /**
- * Tool: stop-managed-process
- * Stops a running development server
+ * Helper: last lines of a task log without the runner's timestamps
+ */
+async function taskOutputTail(logPath: string, lines: number): Promise<string> {
+  const tail = await tailFile(logPath, lines);
+  return tail ? tail.split('\n').map(line => parseLogLine(line).text).join('\n') : '';
+}
+
+/**
+ * Helper: one-line outcome of a task run
+ */
+function describeTaskRun(task: string, run: TaskRun): string {
+  const duration = run.durationMs !== undefined ? ` in ${(run.durationMs / 1000).toFixed(1)}s` : '';
+  const exit = run.signal ? ` (signal ${run.signal})` : run.exitCode !== undefined && run.exitCode !== null ? ` (exit code ${run.exitCode})` : '';
+  return `${run.startedAt} ${task}: ${run.status}${duration}${exit}`;
+}
+
+/**
+ * Tool: run-task
+ * Runs a one-shot task (build, tests, migration) to completion
  */
 server.registerTool(
-  'stop-managed-process',
+  'run-task',
   {
-    title: 'Stop Development Server',
-    description: 'Stop a running development server',
+    title: 'Run Task',
+    description: 'Run a one-shot task such as a build, test suite or migration to completion and report its exit code, duration and output. Pass script (and friends) to define or update the task; every run keeps its stdout/stderr in log files listed by get-task-runs.',
     inputSchema: {
-      name: z.string().describe('Name of the server to stop')
+      name: processNameSchema.describe('Task name'),
+      script: z.string().optional().describe('Command or script to run; required the first time a task is run'),
+      cwd: z.string().optional().describe('Working directory (default: project root)'),
+      args: z.array(z.string()).optional().describe('Arguments passed to the script'),
+      env: z.record(z.string()).optional().describe('Environment variables; values may reference ${VAR} or ${processes.<name>.port|url|host}'),
+      envFiles: z.array(z.string()).optional().describe('dotenv files relative to cwd; later files win, env wins over all'),
+      interpreter: z.string().optional().describe('Interpreter to use (e.g., node, python)'),
+      timeoutMs: z.number().int().positive().optional().describe(`Kill the task after this long (default ${DEFAULT_TASK_TIMEOUT_MS / 60000} minutes)`),
+      tailLines: z.number().int().min(0).max(500).optional().default(50).describe('Lines of stdout and stderr to return'),
+      project: projectSchema
     },
     outputSchema: {
-      success: z.boolean()
+      task: z.string(),
+      run: taskRunSchema,
+      stdout: z.string(),
+      stderr: z.string()
     }
   },
-  async ({ name }) => {
-    await stopPm2Process(name);
+  withRedaction(async ({ project, name, tailLines = 50, ...definition }) => {
+    const session = await loadState(project);
+
+    session.state.tasks = session.state.tasks || {};
+    const existing = session.state.tasks[name];
+    const script = definition.script ?? existing?.script;
+    if (!script) {
+      throw new Error(`Task '${name}' is not defined yet; pass script to define it.`);
+    }
+    // Settings passed in replace the stored ones; omitted ones are kept
+    const task: TaskConfig = {
+      ...existing,
+      name,
+      script,
+      cwd: definition.cwd ?? existing?.cwd,
+      args: definition.args ?? existing?.args,
+      env: definition.env ?? existing?.env,
+      envFiles: definition.envFiles ?? existing?.envFiles,
+      interpreter: definition.interpreter ?? existing?.interpreter,
+      timeoutMs: definition.timeoutMs ?? existing?.timeoutMs
+    };
+    session.state.tasks[name] = task;
+
+    const run = await createTaskRun(task, session.project);
+    await persistState(session);
+
+    // Other tool calls may have refreshed the registry from disk while the task ran
+    const saveRun = async () => {
+      const stored = session.state.tasks?.[name]?.runs?.find(entry => entry.id === run.id);
+      if (stored) {
+        Object.assign(stored, run);
+        await persistState(session);
+      }
+    };
+
+    // The pid is stored right away so other MCP instances see the run is alive
+    await executeTaskRun(task, run, session.project, session.state.managedProcesses, saveRun);
+    await saveRun();
+
     const output = {
-      success: true
+      task: name,
+      run,
+      stdout: await taskOutputTail(run.outLog, tailLines),
+      stderr: await taskOutputTail(run.errorLog, tailLines)
+    };
+
+    const sections = [
+      describeTaskRun(name, run),
+      output.stdout ? `\nstdout:\n${output.stdout}` : '',
+      output.stderr ? `\nstderr:\n${output.stderr}` : ''
+    ].filter(Boolean);
+
+    return {
+      content: [{
+        type: 'text',
+        text: sections.join('\n')
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+/**
+ * Tool: get-task-runs
+ * Past runs of one-shot tasks, newest first
+ */
+server.registerTool(
+  'get-task-runs',
+  {
+    title: 'Get Task Runs',
+    description: 'List past runs of tasks started with run-task, newest first, with status, exit code, duration and log file paths. Answers "did the last build pass?".',
+    inputSchema: {
+      name: processNameSchema.optional().describe('Only runs of this task (default: all tasks)'),
+      limit: z.number().int().min(1).max(100).optional().default(10).describe('Number of most recent runs to return'),
+      includeOutput: z.boolean().optional().default(false).describe('Include the last lines of stdout and stderr of every run'),
+      tailLines: z.number().int().min(1).max(200).optional().default(20).describe('Lines of output per stream with includeOutput'),
+      project: projectSchema
+    },
+    outputSchema: {
+      tasks: z.array(z.object({
+        name: z.string(),
+        script: z.string(),
+        args: z.array(z.string()).optional(),
+        cwd: z.string().optional(),
+        timeoutMs: z.number().optional(),
+        lastStatus: taskRunSchema.shape.status.optional()
+      })),
+      runs: z.array(taskRunSchema.extend({
+        task: z.string(),
+        stdout: z.string().optional(),
+        stderr: z.string().optional()
+      }))
+    }
+  },
+  withRedaction(async ({ project, name, limit = 10, includeOutput = false, tailLines = 20 }) => {
+    const session = await loadState(project);
+
+    const allTasks = Object.values(session.state.tasks || {});
+    if (name && !session.state.tasks?.[name]) {
+      throw new Error(`Task '${name}' is not defined.`);
+    }
+    const tasks = name ? allTasks.filter(task => task.name === name) : allTasks;
+
+    let settled = false;
+    for (const task of tasks) {
+      settled = settleOrphanedRuns(task) || settled;
+    }
+    if (settled) {
+      await persistState(session);
+    }
+
+    const runs = [];
+    const latest = tasks
+      .flatMap(task => (task.runs || []).map(run => ({ task: task.name, ...run })))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, limit);
+    for (const run of latest) {
+      runs.push(includeOutput
+        ? {
+          ...run,
+          stdout: await taskOutputTail(run.outLog, tailLines),
+          stderr: await taskOutputTail(run.errorLog, tailLines)
+        }
+        : run);
+    }
+
+    const output = {
+      tasks: tasks.map(task => ({
+        name: task.name,
+        script: task.script,
+        args: task.args,
+        cwd: task.cwd,
+        timeoutMs: task.timeoutMs,
+        lastStatus: task.runs?.[task.runs.length - 1]?.status
+      })),
+      runs
     };
 
+    const lines = runs.flatMap(run => [
+      describeTaskRun(run.task, run),
+      ...('stdout' in run && run.stdout ? [`  stdout:\n${run.stdout.replace(/^/gm, '    ')}`] : []),
+      ...('stderr' in run && run.stderr ? [`  stderr:\n${run.stderr.replace(/^/gm, '    ')}`] : [])
+    ]);
+
     return {
       content: [{
         type: 'text',
-        text: `Server '${name}' stopped`
+        text: lines.length > 0
+          ? `Task runs (newest first):\n${lines.join('\n')}`
+          : tasks.length > 0 ? 'No task runs yet.' : 'No tasks defined; define one with run-task.'
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
+const logLineSchema = z.object({
+  stream: z.enum(['out', 'error']),
+  timestamp: z.string().optional(),
+  text: z.string()
+});
+
 /**
- * Tool: restart-managed-process
- * Restarts a running development server
+ * Helper: log lines as text, each tagged with its stream and timestamp
+ */
+function formatLogLines(lines: StreamLogLine[]): string {
+  return lines
+    .map(line => `[${line.stream}${line.timestamp ? ` ${line.timestamp}` : ''}] ${line.text}`)
+    .join('\n');
+}
+
+/**
+ * Tool: read-managed-process-logs
+ * Read logs for a development server
  */
 server.registerTool(
-  'restart-managed-process',
+  'read-managed-process-logs',
   {
-    title: 'Restart Development Server',
-    description: 'Restart a running development server',
+    title: 'Read Server Logs',
+    description: 'Read logs from a development server, stdout and stderr interleaved by time with each line tagged with its stream and timestamp. Returns nextCursor: pass it back as cursor to page forward or to poll for new output without re-reading anything.',
     inputSchema: {
-      name: z.string().describe('Name of the server to restart')
+      name: processNameSchema.describe('Server name'),
+      lines: z.number().int().min(1).max(1000).optional().default(50).describe('Number of log lines to read (page size)'),
+      type: z.enum(['all', 'out', 'error']).optional().default('all').describe('Log stream to read'),
+      freshOnly: z.boolean().optional().default(false).describe('Read forward from the start of the current run instead of the latest lines'),
+      run: z.number().int().min(1).optional().describe('Read forward from the start of an earlier run instead: 1 = the run before the current one'),
+      cursor: z.string().optional().describe('nextCursor of a previous call; continues right after the lines it returned'),
+      project: projectSchema
     },
     outputSchema: {
       success: z.boolean(),
-      status: z.string()
+      logs: z.string(),
+      lines: z.array(logLineSchema),
+      nextCursor: z.string(),
+      hasMore: z.boolean()
     }
   },
-  async ({ name }) => {
-    await loadState();
-
-    // Flush logs before restart to get fresh output
-    try {
-      await runPm2(`pm2 flush ${name}`);
-    } catch (error) {
-      // Ignore flush errors, continue with restart
-    }
-
-    await restartPm2Process(name);
-
-    // After restart, capture the log file offset for fresh log reads
-    try {
-      const logPath = getPm2LogPath(name, 'out');
-      const stats = await fs.stat(logPath);
-
-      if (serverState.managedProcesses[name]) {
-        serverState.managedProcesses[name].logOffset = stats.size;
-        await persistState();
+  withRedaction(async ({ project, name, lines = 50, type = 'all', freshOnly = false, run, cursor }) => {
+    const session = await loadState(project);
+    const backend = await backendFor(session, name);
+    const config = session.state.managedProcesses[name];
+
+    let runStart: LogOffsets | undefined;
+    if (run !== undefined) {
+      // Every start/restart event marks where its run's logs begin
+      const boundaries = (config?.history || []).filter(event =>
+        (event.type === 'start' || event.type === 'restart') && event.logOffsets
+      );
+      runStart = boundaries[boundaries.length - 1 - run]?.logOffsets;
+      if (!runStart) {
+        throw new Error(`No log boundary recorded for run ${run} of '${name}'; ${Math.max(0, boundaries.length - 1)} earlier runs are known.`);
       }
-    } catch (error) {
-      // Log file might not exist yet, offset will be 0 by default
     }
 
+    const streams: LogStream[] = type === 'all' ? ['out', 'error'] : [type];
+    // Without a cursor: a run's start offsets for run/freshOnly, else the latest lines
+    const from = cursor ? decodeLogCursor(cursor, name) : runStart ?? (freshOnly ? config?.logOffsets : undefined);
+    const page = await readLogPage(getLogSources(backend, name, config), streams, lines, from);
+
+    const logs = formatLogLines(page.lines);
     const output = {
       success: true,
-      status: 'restarted'
+      logs,
+      lines: page.lines,
+      nextCursor: encodeLogCursor(name, page.offsets),
+      hasMore: page.hasMore
     };
 
+    const scope = cursor
+      ? ' (continued)'
+      : runStart
+        ? ` (from the start of run -${run})`
+        : freshOnly ? (from ? ' (current run)' : ' (run start unknown, latest lines)') : '';
+    const footer = page.hasMore
+      ? `More lines available; call again with cursor "${output.nextCursor}"`
+      : `Up to date; cursor "${output.nextCursor}" returns only newer lines`;
+
     return {
       content: [{
         type: 'text',
-        text: `Server '${name}' restarted (logs flushed)`
+        text: `Logs for '${name}'${scope}:\n${logs || '(no new log lines)'}\n\n${footer}`
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
 /**
- * Tool: delete-managed-process
- * Unregisters and stops a development server
+ * Tool: send-process-input
+ * Type into the stdin of an interactive process and return what it printed
  */
 server.registerTool(
-  'delete-managed-process',
+  'send-process-input',
   {
-    title: 'Delete Development Server',
-    description: 'Delete a development server and remove it from tracking',
+    title: 'Send Input to Server',
+    description: 'Write text and/or key presses to the stdin of a running process registered with interactive: true (e.g. "r" + enter to make a dev server reload, "a" to run all tests in a watcher, a line for a REPL or prompt), then return the log lines it wrote in response. Under PM2 only whole lines (ending with enter) can be sent; raw key presses need the native backend',
     inputSchema: {
-      name: z.string().describe('Name of the server to delete'),
-      deleteFromPm2: z.boolean().optional().default(true).describe('Stop the running server as well')
+      name: processNameSchema.describe('Server name'),
+      text: z.string().optional().describe('Text to write as-is'),
+      keys: z.array(z.enum(KEY_NAMES)).optional().describe('Keys pressed after the text, e.g. ["enter"] or ["ctrl-c"]'),
+      waitMs: z.number().int().min(0).max(30000).optional().default(1000).describe('How long to collect output after sending'),
+      lines: z.number().int().min(1).max(1000).optional().default(50).describe('Maximum number of output lines to return'),
+      project: projectSchema
     },
     outputSchema: {
-      success: z.boolean()
+      success: z.boolean(),
+      bytesSent: z.number(),
+      logs: z.string(),
+      lines: z.array(logLineSchema),
+      nextCursor: z.string(),
+      hasMore: z.boolean()
     }
   },
-  async ({ name, deleteFromPm2 = true }) => {
-    await loadState();
-
-    if (deleteFromPm2) {
-      await deletePm2Process(name);
+  withRedaction(async ({ project, name, text, keys, waitMs = 1000, lines = 50 }) => {
+    const session = await loadState(project);
+    const config = session.state.managedProcesses[name];
+    if (!config) {
+      throw new Error(`Managed process '${name}' is not registered.`);
+    }
+    if (!config.interactive) {
+      throw new Error(`Process '${name}' does not accept input. Update it with interactive: true and restart it.`);
+    }
+    const data = encodeInput(text, keys);
+    if (!data) {
+      throw new Error('Nothing to send. Pass text and/or keys.');
     }
 
-    delete serverState.managedProcesses[name];
-    await persistState();
+    const backend = await backendFor(session, name);
+    const from = toLogicalOffsets(config, await captureLogOffsets(backend, name));
+    await backend.sendInput(name, data);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    // Sources are read after the wait, in case the logs were rotated meanwhile
+    const page = await readLogPage(getLogSources(backend, name, config), ['out', 'error'], lines, from);
 
+    const logs = formatLogLines(page.lines);
     const output = {
-      success: true
+      success: true,
+      bytesSent: Buffer.byteLength(data),
+      logs,
+      lines: page.lines,
+      nextCursor: encodeLogCursor(name, page.offsets),
+      hasMore: page.hasMore
     };
+    const footer = page.hasMore
+      ? `More output available; read it with read-managed-process-logs cursor "${output.nextCursor}"`
+      : `Later output: read-managed-process-logs with cursor "${output.nextCursor}"`;
 
     return {
       content: [{
         type: 'text',
-        text: `Server '${name}' deleted${deleteFromPm2 ? ' and stopped' : ''}`
+        text: `Sent ${output.bytesSent} bytes to '${name}'. Output within ${waitMs}ms:\n${logs || '(no output)'}\n\n${footer}`
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
+const logContextLineSchema = z.object({
+  lineNumber: z.number(),
+  text: z.string()
+});
+
 /**
- * Tool: describe-managed-process
- * Provide detailed PM2 description for a managed process
+ * Tool: search-managed-process-logs
+ * Search a server's log files by regex or literal text within a time window
  */
 server.registerTool(
-  'describe-managed-process',
+  'search-managed-process-logs',
   {
-    title: 'Describe Managed Process',
-    description: 'Get detailed PM2 information about a process',
+    title: 'Search Server Logs',
+    description: 'Search a development server\'s log files for a regex or literal text, optionally within a time window, returning matches with line numbers, timestamps and context',
     inputSchema: {
-      name: z.string().describe('Name of the process to describe')
+      name: processNameSchema.describe('Server name'),
+      query: z.string().describe('Text or regular expression to search for'),
+      regex: z.boolean().optional().default(false).describe('Treat query as a regular expression'),
+      caseSensitive: z.boolean().optional().default(false),
+      stream: z.enum(['out', 'error', 'both']).optional().default('both').describe('Log stream to search'),
+      since: z.string().optional().describe('ISO timestamp, or "last-start" for the current run only'),
+      until: z.string().optional().describe('ISO timestamp'),
+      before: z.number().int().min(0).max(50).optional().default(0).describe('Context lines before each match'),
+      after: z.number().int().min(0).max(50).optional().default(0).describe('Context lines after each match'),
+      maxMatches: z.number().int().min(1).max(500).optional().default(50),
+      project: projectSchema
     },
     outputSchema: {
       success: z.boolean(),
-      description: z.string()
+      matches: z.array(z.object({
+        stream: z.enum(['out', 'error']),
+        lineNumber: z.number(),
+        timestamp: z.string().optional(),
+        text: z.string(),
+        before: z.array(logContextLineSchema),
+        after: z.array(logContextLineSchema)
+      })),
+      truncated: z.boolean(),
+      rotatedAway: z.boolean().describe('Part of the searched range is older than the oldest log archive kept')
     }
   },
-  async ({ name }) => {
-    const description = await describePm2Process(name);
+  withRedaction(async ({ project, name, query, regex = false, caseSensitive = false, stream = 'both', since, until, before = 0, after = 0, maxMatches = 50 }) => {
+    const session = await loadState(project);
+    const backend = await backendFor(session, name);
+    const sources = getLogSources(backend, name, session.state.managedProcesses[name]);
+
+    let pattern: RegExp;
+    try {
+      const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      pattern = new RegExp(source, caseSensitive ? '' : 'i');
+    } catch (error) {
+      throw new Error(`Invalid regular expression '${query}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parseTime = async (value: string | undefined, label: string): Promise<Date | undefined> => {
+      if (!value) {
+        return undefined;
+      }
+      if (value === 'last-start') {
+        const info = await backend.getInfo(name);
+        if (!info?.startedAt) {
+          throw new Error(`Server '${name}' has no recorded start time; pass an ISO timestamp instead`);
+        }
+        return new Date(info.startedAt);
+      }
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid ${label} timestamp '${value}'`);
+      }
+      return date;
+    };
+
+    const options = {
+      pattern,
+      since: await parseTime(since, 'since'),
+      until: await parseTime(until, 'until'),
+      before,
+      after,
+      maxMatches
+    };
+
+    const streams: LogStream[] = stream === 'both' ? ['out', 'error'] : [stream];
+    const results = await Promise.all(
+      streams.map(logStream => searchLogHistory(sources[logStream], logStream, options))
+    );
+    const { matches, truncated, rotatedAway } = mergeSearchResults(results, maxMatches);
+
     const output = {
       success: true,
-      description
+      matches,
+      truncated,
+      rotatedAway
     };
+    const rotatedInfo = rotatedAway ? '\n(Older output has been rotated away and was not searched)' : '';
+
+    const formatted = matches.map(match => [
+      ...match.before.map(line => `  ${line.lineNumber}  ${line.text}`),
+      `> ${match.lineNumber}  [${match.stream}]${match.timestamp ? ` ${match.timestamp}` : ''} ${match.text}`,
+      ...match.after.map(line => `  ${line.lineNumber}  ${line.text}`)
+    ].join('\n')).join('\n--\n');
 
     return {
       content: [{
         type: 'text',
-        text: description
+        text: matches.length > 0
+          ? `${matches.length} match(es) for '${query}' in '${name}' logs${truncated ? ` (truncated at ${maxMatches})` : ''}:\n${formatted}${rotatedInfo}`
+          : `No matches for '${query}' in '${name}' logs${rotatedInfo}`
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
 /**
- * Tool: read-managed-process-logs
- * Read logs for a development server
+ * Tool: extract-process-errors
+ * Summarize the errors in a server's logs instead of returning raw lines
  */
 server.registerTool(
-  'read-managed-process-logs',
+  'extract-process-errors',
   {
-    title: 'Read Server Logs',
-    description: 'Read recent logs from a development server',
+    title: 'Extract Server Errors',
+    description: 'Parse a development server\'s logs for errors (JS/TS stack traces, Node Error blocks, Python tracebacks, compiler diagnostics, JSON logs at level >= error) and return them grouped with counts, first/last seen time and source location',
     inputSchema: {
-      name: z.string().describe('Server name'),
-      lines: z.number().optional().default(50).describe('Number of log lines to read'),
-      type: z.enum(['all', 'out', 'error']).optional().default('all').describe('Log stream to read'),
-      freshOnly: z.boolean().optional().default(false).describe('Only read logs since last restart (uses stored offset)')
+      name: processNameSchema.describe('Server name'),
+      stream: z.enum(['out', 'error', 'both']).optional().default('both').describe('Log stream to scan'),
+      freshOnly: z.boolean().optional().default(false).describe('Only scan output of the current run'),
+      maxErrors: z.number().int().min(1).max(200).optional().default(20).describe('Maximum distinct errors to return'),
+      project: projectSchema
     },
     outputSchema: {
       success: z.boolean(),
-      logs: z.string()
+      errors: z.array(z.object({
+        kind: z.enum(['js', 'python', 'compiler', 'json']),
+        type: z.string(),
+        message: z.string(),
+        location: z.object({
+          file: z.string(),
+          line: z.number(),
+          column: z.number().optional()
+        }).optional(),
+        count: z.number(),
+        firstSeen: z.string().optional(),
+        lastSeen: z.string().optional(),
+        stream: z.enum(['out', 'error']),
+        lineNumber: z.number(),
+        stack: z.array(z.string()).optional()
+      })),
+      totalOccurrences: z.number(),
+      truncated: z.boolean(),
+      rotatedAway: z.boolean().describe('The start of the current run was already pruned from the log archives')
     }
   },
-  async ({ name, lines = 50, type = 'all', freshOnly = false }) => {
-    await loadState();
-
-    let cleanedLogs = '';
-
-    // If freshOnly is true, read from log file using stored offset
-    if (freshOnly && serverState.managedProcesses[name]?.logOffset !== undefined) {
-      try {
-        const logPath = getPm2LogPath(name, type === 'error' ? 'error' : 'out');
-        const offset = serverState.managedProcesses[name].logOffset || 0;
-
-        // Read from offset to end of file
-        const fileHandle = await fs.open(logPath, 'r');
-        const stats = await fileHandle.stat();
-        const bytesToRead = stats.size - offset;
-
-        if (bytesToRead > 0) {
-          // Limit to reasonable size (1MB)
-          const maxBytes = 1024 * 1024;
-          const readSize = Math.min(bytesToRead, maxBytes);
-          const buffer = Buffer.alloc(readSize);
-
-          await fileHandle.read(buffer, 0, readSize, offset);
-          await fileHandle.close();
-
-          cleanedLogs = buffer.toString('utf8');
-
-          // Update offset for next read
-          serverState.managedProcesses[name].logOffset = offset + readSize;
-          await persistState();
-        } else {
-          cleanedLogs = '(no new logs since last restart)';
-        }
-      } catch (error) {
-        // Fall back to PM2 command if direct file read fails
-        freshOnly = false;
-      }
-    }
-
-    // If not using freshOnly mode or fallback needed, use PM2 command
-    if (!freshOnly) {
-      let command = `pm2 logs ${name} --lines ${lines} --nostream`;
-      if (type === 'out') {
-        command += ' --out';
-      } else if (type === 'error') {
-        command += ' --err';
-      }
-
-      const rawLogs = await runPm2(command);
-
-      // Strip PM2 formatting and paths
-      cleanedLogs = rawLogs
-        // Remove PM2 log file paths
-        .replace(/\/.*\.pm2\/logs\/.*\.log last \d+ lines:/g, '')
-        // Remove PM2 process ID prefixes (e.g., "10|example | ")
-        .replace(/^\s*\d+\|[^|]+\|\s*/gm, '')
-        // Remove [TAILING] messages
-        .replace(/\[TAILING\].*$/gm, '')
-        .trim();
-    }
+  withRedaction(async ({ project, name, stream = 'both', freshOnly = false, maxErrors = 20 }) => {
+    const session = await loadState(project);
+    const backend = await backendFor(session, name);
+    const config = session.state.managedProcesses[name];
+
+    // Fresh scans start at the stored offsets and the run's start time
+    const startedAt = freshOnly ? (await backend.getInfo(name))?.startedAt : undefined;
+    const streams: LogStream[] = stream === 'both' ? ['out', 'error'] : [stream];
+    const sources = getLogSources(backend, name, config);
+    const reads = await Promise.all(streams.map(logStream =>
+      readLogLines(
+        sources[logStream],
+        logStream,
+        freshOnly && config?.logOffsets ? config.logOffsets[logStream] : undefined
+      )
+    ));
+    const rotatedAway = reads.some(read => read.rotatedAway);
+    const lines = reads.flatMap(read => read.lines).filter(line =>
+      !startedAt || !line.timestamp || new Date(line.timestamp).getTime() >= startedAt
+    );
+
+    const occurrences = extractErrors(lines);
+    const grouped = groupErrors(occurrences);
+    const errors = grouped.slice(0, maxErrors);
 
     const output = {
       success: true,
-      logs: cleanedLogs
+      errors,
+      totalOccurrences: occurrences.length,
+      truncated: grouped.length > maxErrors,
+      rotatedAway
     };
+    const rotatedInfo = rotatedAway ? '\n(The start of this run has been rotated away and was not scanned)' : '';
+
+    const formatted = errors.map(error => {
+      const location = error.location
+        ? ` at ${error.location.file}:${error.location.line}${error.location.column ? `:${error.location.column}` : ''}`
+        : '';
+      const seen = error.lastSeen ? ` (last seen ${error.lastSeen})` : '';
+      return `- [${error.kind}] ${error.type}: ${error.message}${location} ×${error.count}${seen}`;
+    }).join('\n');
 
     return {
       content: [{
         type: 'text',
-        text: `Recent logs for '${name}'${freshOnly ? ' (fresh only)' : ''}:\n${cleanedLogs}`
+        text: errors.length > 0
+          ? `${grouped.length} distinct error(s), ${occurrences.length} occurrence(s) in '${name}' logs:\n${formatted}${rotatedInfo}`
+          : `No errors found in '${name}' logs${freshOnly ? ' since the last start' : ''}${rotatedInfo}`
       }],
       structuredContent: output
     };
-  }
+  })
 );
 
 /**
@@ -785,7 +2290,8 @@ server.registerTool(
     title: 'Get PM2 Status',
     description: 'Get the status of PM2-managed processes',
     inputSchema: {
-      processName: z.string().optional().describe('Specific PM2 process name to check')
+      processName: z.string().optional().describe('Specific PM2 process name to check'),
+      project: projectSchema
     },
     outputSchema: {
       available: z.boolean(),
@@ -794,14 +2300,18 @@ server.registerTool(
         pid: z.number(),
         status: z.string(),
         cpu: z.string(),
-        memory: z.string()
+        memory: z.string(),
+        health: z.enum(HEALTH_STATUSES),
+        healthProbe: healthProbeSchema.optional()
       }))
     }
   },
-  async ({ processName }) => {
+  withRedaction(async ({ project, processName }) => {
+    const session = await loadState(project);
+    syncMonitors(session);
+
     try {
-      const stdout = await runPm2('pm2 jlist');
-      const processes = JSON.parse(stdout);
+      const processes = await listPm2Processes();
       
       const filtered = processName 
         ? processes.filter((p: any) => p.name === processName)
@@ -809,13 +2319,18 @@ server.registerTool(
 
       const output = {
         available: true,
-        processes: filtered.map((p: any) => ({
-          name: p.name,
-          pid: p.pid,
-          status: p.pm2_env.status,
-          cpu: p.monit.cpu + '%',
-          memory: Math.round(p.monit.memory / 1024 / 1024) + 'MB'
-        }))
+        processes: filtered.map((p: any) => {
+          const health = getHealthReport(localName(session.project, p.name) ?? p.name, p.pm2_env.status, session.project.key);
+          return {
+            name: p.name,
+            pid: p.pid,
+            status: p.pm2_env.status,
+            cpu: p.monit.cpu + '%',
+            memory: Math.round(p.monit.memory / 1024 / 1024) + 'MB',
+            health: health.status,
+            healthProbe: health.lastProbe
+          };
+        })
       };
 
       return {
@@ -839,7 +2354,184 @@ server.registerTool(
         structuredContent: output
       };
     }
-  }
+  })
+);
+
+/**
+ * Tool: set-default-backend
+ * Choose the process backend used by registrations without their own setting
+ */
+server.registerTool(
+  'set-default-backend',
+  {
+    title: 'Set Default Process Backend',
+    description: 'Choose the project-wide process backend: PM2 or the built-in native supervisor. Omit to auto-detect (PM2 when installed, native otherwise)',
+    inputSchema: {
+      backend: z.enum(BACKEND_KINDS).optional().describe('Backend to use by default; omit to auto-detect'),
+      project: projectSchema
+    },
+    outputSchema: {
+      success: z.boolean(),
+      defaultBackend: z.enum(BACKEND_KINDS)
+    }
+  },
+  withRedaction(async ({ project, backend }) => {
+    const session = await loadState(project);
+
+    session.state.defaultBackend = backend;
+    await persistState(session);
+
+    const resolved = await resolveBackend(undefined, session);
+    const output = {
+      success: true,
+      defaultBackend: resolved.kind
+    };
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Default backend set to '${resolved.kind}'${backend ? '' : ' (auto-detected)'}`
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+/**
+ * Tool: export-config
+ * Writes registrations to the checked-in project descriptor
+ */
+server.registerTool(
+  'export-config',
+  {
+    title: 'Export Project Config',
+    description: `Write registered servers to ${DESCRIPTOR_FILE_NAME} in the project root (relative cwds, no runtime data) so the registry can be committed and shared with the team`,
+    inputSchema: {
+      names: z.array(processNameSchema).optional().describe('Servers to export (merged into the existing file); omit to export the whole registry'),
+      includeEnv: z.boolean().optional().default(false).describe('Include env variables; sensitive keys (tokens, passwords, ...) are always left out'),
+      project: projectSchema
+    },
+    outputSchema: {
+      file: z.string(),
+      exported: z.array(z.string()),
+      withheldEnv: z.array(z.string()).describe('"<server>.<KEY>" env entries kept out of the file as sensitive')
+    }
+  },
+  withRedaction(async ({ project, names, includeEnv = false }) => {
+    const session = await loadState(project);
+
+    const exported = names || Object.keys(session.state.managedProcesses);
+    const unknown = exported.filter(name => !session.state.managedProcesses[name]);
+    if (unknown.length > 0) {
+      throw new Error(`Managed process(es) not registered: ${unknown.join(', ')}`);
+    }
+
+    // A partial export keeps the other entries; a full export mirrors the registry
+    const file = session.project.descriptorFile;
+    const existing = names ? await readDescriptor(file) : null;
+    const descriptor = { processes: { ...(existing?.processes || {}) } };
+    const withheldEnv: string[] = [];
+    for (const name of exported) {
+      const config = session.state.managedProcesses[name];
+      descriptor.processes[name] = toDeclared(config, file, includeEnv);
+      if (includeEnv) {
+        const kept = descriptor.processes[name].env || {};
+        withheldEnv.push(...Object.keys(config.env || {}).filter(key => !(key in kept)).map(key => `${name}.${key}`));
+      }
+    }
+
+    await writeDescriptor(descriptor, file);
+    // Loading the file back must not strip the env it leaves out
+    markDescriptorSynced(session.state, descriptor, exported);
+    await persistState(session);
+
+    const output = { file, exported, withheldEnv };
+    const withheldInfo = withheldEnv.length > 0 ? ` (sensitive env left out: ${withheldEnv.join(', ')})` : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Exported ${exported.length} server(s) to ${file}: ${exported.join(', ') || '(none)'}${withheldInfo}`
+      }],
+      structuredContent: output
+    };
+  })
+);
+
+/**
+ * Tool: import-config
+ * Applies the checked-in project descriptor to the local registry
+ */
+server.registerTool(
+  'import-config',
+  {
+    title: 'Import Project Config',
+    description: `Apply ${DESCRIPTOR_FILE_NAME} to the local registry, overriding local edits of the declared servers while keeping runtime data (log offsets, endpoints, history)`,
+    inputSchema: {
+      names: z.array(processNameSchema).optional().describe('Servers to import; omit to import all'),
+      replace: z.boolean().optional().default(false).describe('Also unregister local servers the file does not declare'),
+      project: projectSchema
+    },
+    outputSchema: {
+      file: z.string(),
+      added: z.array(z.string()),
+      updated: z.array(z.string()),
+      removed: z.array(z.string())
+    }
+  },
+  withRedaction(async ({ project, names, replace = false }) => {
+    const session = await loadState(project);
+
+    const file = session.project.descriptorFile;
+    const descriptor = await readDescriptor(file);
+    if (!descriptor) {
+      throw new Error(`No ${DESCRIPTOR_FILE_NAME} found in ${session.project.root}. Use export-config to create one.`);
+    }
+    const unknown = (names || []).filter(name => !descriptor.processes[name]);
+    if (unknown.length > 0) {
+      throw new Error(`Not declared in ${DESCRIPTOR_FILE_NAME}: ${unknown.join(', ')}`);
+    }
+
+    const applyImport = (state: DevServerState) => {
+      const result = mergeDescriptor(state, descriptor, file, { force: true, names });
+      if (replace) {
+        for (const name of Object.keys(state.managedProcesses)) {
+          if (!descriptor.processes[name]) {
+            delete state.managedProcesses[name];
+            result.removed.push(name);
+          }
+        }
+      }
+      return result;
+    };
+
+    // Try the import on a copy first so a rejected one leaves the registry untouched
+    const preview = structuredClone(session.state);
+    const previewResult = applyImport(preview);
+    assertNoDependents(preview.managedProcesses, previewResult.removed);
+    for (const name of Object.keys(preview.managedProcesses)) {
+      validateDependencies(preview.managedProcesses, name);
+    }
+
+    const result = applyImport(session.state);
+    await persistState(session);
+    syncMonitors(session);
+
+    const output = { file, ...result };
+    const summary = [
+      result.added.length > 0 ? `added ${result.added.join(', ')}` : '',
+      result.updated.length > 0 ? `updated ${result.updated.join(', ')}` : '',
+      result.removed.length > 0 ? `unregistered ${result.removed.join(', ')} (running processes were left alone)` : ''
+    ].filter(Boolean).join('; ');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Imported ${file}: ${summary || 'nothing to change'}`
+      }],
+      structuredContent: output
+    };
+  })
 );
 
 /**
@@ -851,10 +2543,11 @@ server.registerResource(
   'config://server-config',
   {
     name: 'Server Configuration',
-    description: 'Access to server configuration and package.json',
+    description: 'Access to server configuration, package.json and the dev servers discovered in the project',
     mimeType: 'application/json'
   },
-  async () => {
+  withRedaction(async () => {
+    const session = await loadState();
     try {
       const cwd = process.cwd();
       const packageJsonPath = path.join(cwd, 'package.json');
@@ -866,7 +2559,8 @@ server.registerResource(
         name: pkg.name,
         scripts: pkg.scripts,
         dependencies: pkg.dependencies,
-        devDependencies: pkg.devDependencies
+        devDependencies: pkg.devDependencies,
+        discoveredServers: await discoverCandidates(session, cwd)
       };
 
       return {
@@ -877,17 +2571,215 @@ server.registerResource(
         }]
       };
     } catch (error) {
+      // Projects without package.json (Python, Procfile) can still have servers
+      const discoveredServers = await discoverCandidates(session, process.cwd()).catch(() => []);
       return {
         contents: [{
           uri: 'config://server-config',
-          text: JSON.stringify({ error: 'Could not read package.json' }, null, 2),
+          text: JSON.stringify({ error: 'Could not read package.json', discoveredServers }, null, 2),
           mimeType: 'application/json'
         }]
       };
     }
+  })
+);
+
+const PROCESS_URI_PREFIX = 'devserver://processes/';
+const LOG_RESOURCE_LINES = 200;
+const LOG_STREAMS = ['out', 'error'] as const;
+
+/**
+ * Helper: registered process plus its live backend status, health and endpoint
+ */
+async function getProcessSnapshot(session: ProjectSession, name: string) {
+  const config = session.state.managedProcesses[name];
+  if (!config) {
+    return null;
+  }
+
+  const backend = await resolveBackend(config, session);
+  const info = await backend.getInfo(name);
+  const status = info?.status || 'stopped';
+  const health = getHealthReport(name, status, session.project.key);
+  // History is served by get-process-history; keep the snapshot small
+  const { history, ...registration } = config;
+
+  return {
+    name,
+    backend: backend.kind,
+    status,
+    pid: info?.pid,
+    cpu: info?.cpu,
+    memory: info?.memory,
+    restarts: info?.restarts,
+    health: health.status,
+    healthProbe: health.lastProbe,
+    endpoint: status === 'online' ? config.endpoint : undefined,
+    lastCrash: withoutLogTail(getLastCrash(config)),
+    config: registration
+  };
+}
+
+/**
+ * Helper: split a devserver:// URI into process name and optional log stream
+ */
+function parseProcessUri(uri: string): { name: string; stream?: 'out' | 'error' } | null {
+  if (!uri.startsWith(PROCESS_URI_PREFIX)) {
+    return null;
+  }
+  const [name, logs, stream, ...rest] = uri.slice(PROCESS_URI_PREFIX.length).split('/');
+  if (!name || rest.length > 0) {
+    return null;
+  }
+  if (logs === undefined) {
+    return { name: decodeURIComponent(name) };
   }
+  if (logs === 'logs' && (stream === 'out' || stream === 'error')) {
+    return { name: decodeURIComponent(name), stream };
+  }
+  return null;
+}
+
+function variableValue(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Resource: process-state
+ * Live state of one managed process (devserver://processes/{name})
+ */
+server.registerResource(
+  'process-state',
+  new ResourceTemplate(`${PROCESS_URI_PREFIX}{name}`, {
+    list: async () => {
+      const session = await loadState();
+      return {
+        resources: Object.keys(session.state.managedProcesses).map(name => ({
+          uri: `${PROCESS_URI_PREFIX}${encodeURIComponent(name)}`,
+          name: `${name} state`,
+          mimeType: 'application/json'
+        }))
+      };
+    },
+    complete: {
+      name: async () => Object.keys((await loadState()).state.managedProcesses)
+    }
+  }),
+  {
+    title: 'Managed Process State',
+    description: 'Registration, live status, health and endpoint of a managed process. Subscribe to be notified of status changes.',
+    mimeType: 'application/json'
+  },
+  withRedaction(async (uri, variables) => {
+    const session = await loadState();
+    const name = variableValue(variables.name);
+    const snapshot = await getProcessSnapshot(session, name);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(snapshot || { error: `Process '${name}' is not registered` }, null, 2),
+        mimeType: 'application/json'
+      }]
+    };
+  })
+);
+
+/**
+ * Resource: process-logs
+ * Recent stdout/stderr of one managed process (devserver://processes/{name}/logs/{stream})
+ */
+server.registerResource(
+  'process-logs',
+  new ResourceTemplate(`${PROCESS_URI_PREFIX}{name}/logs/{stream}`, {
+    list: async () => {
+      const session = await loadState();
+      return {
+        resources: Object.keys(session.state.managedProcesses).flatMap(name =>
+          LOG_STREAMS.map(stream => ({
+            uri: `${PROCESS_URI_PREFIX}${encodeURIComponent(name)}/logs/${stream}`,
+            name: `${name} ${stream} log`,
+            mimeType: 'text/plain'
+          }))
+        )
+      };
+    },
+    complete: {
+      name: async () => Object.keys((await loadState()).state.managedProcesses),
+      stream: () => [...LOG_STREAMS]
+    }
+  }),
+  {
+    title: 'Managed Process Logs',
+    description: `Last ${LOG_RESOURCE_LINES} lines of a managed process log (out or error). Subscribe to be notified when new lines arrive.`,
+    mimeType: 'text/plain'
+  },
+  withRedaction(async (uri, variables) => {
+    const session = await loadState();
+    const name = variableValue(variables.name);
+    const stream = variableValue(variables.stream);
+    if (stream !== 'out' && stream !== 'error') {
+      throw new Error(`Unknown log stream '${stream}', expected 'out' or 'error'`);
+    }
+
+    const backend = await backendFor(session, name);
+    const text = await tailFile(backend.getLogPath(name, stream), LOG_RESOURCE_LINES);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        text,
+        mimeType: 'text/plain'
+      }]
+    };
+  })
+);
+
+/**
+ * Subscriptions: resources/subscribe and resources/unsubscribe for process
+ * resources. Log resources change when their file grows or is rotated;
+ * state resources when status, health or endpoint change.
+ */
+initSubscriptions(
+  async uri => {
+    const parsed = parseProcessUri(uri);
+    if (!parsed) {
+      return undefined;
+    }
+    // Process resources belong to the MCP's own project
+    const session = await loadState();
+
+    if (parsed.stream) {
+      const backend = await backendFor(session, parsed.name);
+      try {
+        const stats = await fs.stat(backend.getLogPath(parsed.name, parsed.stream));
+        return `${stats.size}:${stats.mtimeMs}`;
+      } catch (error) {
+        return undefined;
+      }
+    }
+
+    const snapshot = await getProcessSnapshot(session, parsed.name);
+    return JSON.stringify(snapshot && [snapshot.status, snapshot.pid, snapshot.health, snapshot.endpoint?.urls]);
+  },
+  uri => server.server.sendResourceUpdated({ uri })
 );
 
+server.server.registerCapabilities({ resources: { subscribe: true } });
+
+server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+  if (!parseProcessUri(request.params.uri)) {
+    throw new Error(`Subscriptions are only supported for ${PROCESS_URI_PREFIX} resources`);
+  }
+  await subscribe(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+  unsubscribe(request.params.uri);
+  return {};
+});
+
 /**
  * Prompt: diagnose-server
  * Provides a structured prompt for diagnosing server issues
@@ -909,7 +2801,7 @@ server.registerPrompt(
               type: 'text',
               text: `Please help diagnose this development server issue: ${issue || 'Server not responding'}\n\nCheck the following:
 1. Is the server registered? (use get-managed-processes)
-2. What is its current status? (use get-managed-processes)
+2. What is its current status, and did it crash? (use get-managed-processes and get-process-history)
 3. Can you start or restart it? (use start-managed-process or restart-managed-process)
 4. Are there any errors in the logs? (use read-managed-process-logs)
 5. Check if dependencies are installed and the port is available
@@ -923,7 +2815,10 @@ Provide a comprehensive diagnosis and recommended next steps.`
 
 // Start the server
 async function main() {
-  await loadState();
+  syncMonitors(await loadState());
+  watchProcessExits();
+  startMetricsSampler(enforceLimits);
+  startLogRetention();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
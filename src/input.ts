@@ -0,0 +1,43 @@
+// Named keys send-process-input can press after the text
+export const KEY_NAMES = [
+  'enter',
+  'tab',
+  'space',
+  'backspace',
+  'escape',
+  'up',
+  'down',
+  'left',
+  'right',
+  'ctrl-c',
+  'ctrl-d',
+  'ctrl-l'
+] as const;
+
+export type KeyName = typeof KEY_NAMES[number];
+
+/**
+ * Bytes a terminal sends for each named key. Control keys arrive as plain
+ * bytes over the pipe: ctrl-c is read as input, it does not raise SIGINT.
+ */
+const KEY_SEQUENCES: Record<KeyName, string> = {
+  enter: '\n',
+  tab: '\t',
+  space: ' ',
+  backspace: '\x7f',
+  escape: '\x1b',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  left: '\x1b[D',
+  right: '\x1b[C',
+  'ctrl-c': '\x03',
+  'ctrl-d': '\x04',
+  'ctrl-l': '\x0c'
+};
+
+/**
+ * Helper: what to write to stdin for some text followed by named keys
+ */
+export function encodeInput(text = '', keys: KeyName[] = []): string {
+  return text + keys.map(key => KEY_SEQUENCES[key]).join('');
+}
@@ -0,0 +1,75 @@
+import { LimitBreach, ManagedProcessConfig } from './types.js';
+import { MetricSample } from './metrics.js';
+
+export const DEFAULT_CPU_WINDOW_MS = 60000;
+export const MAX_LIMIT_BREACHES = 20;
+export const MEMORY_SIZE_PATTERN = /^\d+(\.\d+)?\s*[KMG]?B?$/i;
+
+const MEMORY_UNITS: Record<string, number> = {
+  '': 1,
+  K: 1024,
+  M: 1024 ** 2,
+  G: 1024 ** 3
+};
+
+/**
+ * Helper: bytes in a size such as "1.5G", "800M" or "512MB" (plain numbers are bytes)
+ */
+export function parseMemorySize(size: string): number {
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)\s*([KMG]?)B?$/i);
+  if (!match) {
+    throw new Error(`Invalid memory size '${size}', expected e.g. "800M" or "1.5G"`);
+  }
+  return Math.round(Number(match[1]) * MEMORY_UNITS[match[2].toUpperCase()]);
+}
+
+export function hasLimits(config: ManagedProcessConfig): boolean {
+  return Boolean(config.maxMemory || config.maxCpuPercent);
+}
+
+/**
+ * Check the latest samples of a process against its limits. Memory is
+ * breached by the newest sample; CPU only when every sample of the current
+ * run within the window is above the limit and the samples cover the window.
+ */
+export function findLimitBreach(
+  config: ManagedProcessConfig,
+  samples: MetricSample[]
+): Omit<LimitBreach, 'at' | 'action'> | null {
+  const latest = samples[samples.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  if (config.maxMemory && latest.memory !== undefined) {
+    const threshold = parseMemorySize(config.maxMemory);
+    if (latest.memory > threshold) {
+      return { limit: 'memory', value: latest.memory, threshold, pid: latest.pid };
+    }
+  }
+
+  if (config.maxCpuPercent) {
+    const windowMs = config.cpuWindowMs ?? DEFAULT_CPU_WINDOW_MS;
+    const run = samples.filter(sample => sample.pid === latest.pid && sample.cpu !== undefined);
+    const window = run.filter(sample => sample.at >= latest.at - windowMs);
+    const covered = run.length > window.length || (window.length > 1 && latest.at - window[0].at >= windowMs);
+    if (covered && window.length > 0 && window.every(sample => sample.cpu! > config.maxCpuPercent!)) {
+      const average = window.reduce((total, sample) => total + sample.cpu!, 0) / window.length;
+      return {
+        limit: 'cpu',
+        value: Math.round(average * 10) / 10,
+        threshold: config.maxCpuPercent,
+        windowMs,
+        pid: latest.pid
+      };
+    }
+  }
+
+  return null;
+}
+
+export function recordLimitBreach(config: ManagedProcessConfig, breach: Omit<LimitBreach, 'at'>): LimitBreach {
+  const entry: LimitBreach = { ...breach, at: new Date().toISOString() };
+  config.limitBreaches = [...(config.limitBreaches || []), entry].slice(-MAX_LIMIT_BREACHES);
+  return entry;
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs/promises';
+import { LogStream, ProcessBackend, resolveBackend } from './backends/index.js';
+import { parseMemorySize } from './limits.js';
+import { getArchivePath, getFileSize, LogSource } from './logs.js';
+import { loadedSessions, persistState, ProjectSession } from './state.js';
+import { LogOffsets, LogRetentionConfig, ManagedProcessConfig } from './types.js';
+
+export const DEFAULT_LOG_RETENTION: Required<LogRetentionConfig> = {
+  maxSize: '10M',
+  maxFiles: 5,
+  maxAgeDays: 14
+};
+const LOG_RETENTION_INTERVAL_MS = 60 * 1000;
+const LOG_STREAMS: LogStream[] = ['out', 'error'];
+
+let retentionTimer: NodeJS.Timeout | undefined;
+
+export function getLogRetention(config: ManagedProcessConfig): Required<LogRetentionConfig> {
+  return { ...DEFAULT_LOG_RETENTION, ...config.logRetention };
+}
+
+/**
+ * Helper: live log file and rotation count of each stream of a process
+ */
+export function getLogSources(
+  backend: ProcessBackend,
+  name: string,
+  config?: ManagedProcessConfig
+): Record<LogStream, LogSource> {
+  return {
+    out: { path: backend.getLogPath(name, 'out'), rotatedBytes: config?.rotatedLogBytes?.out ?? 0 },
+    error: { path: backend.getLogPath(name, 'error'), rotatedBytes: config?.rotatedLogBytes?.error ?? 0 }
+  };
+}
+
+/**
+ * Helper: logical offsets for positions in the live log files
+ */
+export function toLogicalOffsets(config: ManagedProcessConfig, offsets: LogOffsets): LogOffsets {
+  return {
+    out: (config.rotatedLogBytes?.out ?? 0) + offsets.out,
+    error: (config.rotatedLogBytes?.error ?? 0) + offsets.error
+  };
+}
+
+/**
+ * Move a live log into archive 1 (shifting older archives up and dropping
+ * those beyond `maxFiles`) and empty it. The file is copied and truncated
+ * rather than renamed because the process keeps it open for appending.
+ * Returns the number of bytes moved out of the live file.
+ */
+async function rotateLogFile(livePath: string, maxFiles: number): Promise<number> {
+  if (maxFiles === 0) {
+    const size = await getFileSize(livePath);
+    await fs.truncate(livePath, 0);
+    return size;
+  }
+  await fs.rm(getArchivePath(livePath, maxFiles), { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await fs.rename(getArchivePath(livePath, index), getArchivePath(livePath, index + 1)).catch(() => undefined);
+  }
+  const archivePath = getArchivePath(livePath, 1);
+  await fs.copyFile(livePath, archivePath);
+  // Output written between copy and truncate is lost; the window is tiny
+  await fs.truncate(livePath, 0);
+  return getFileSize(archivePath);
+}
+
+/**
+ * Helper: delete archives older than the retention age or beyond the count
+ * (which shrinks when `maxFiles` is lowered)
+ */
+async function pruneArchives(livePath: string, retention: Required<LogRetentionConfig>) {
+  const oldest = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  for (let index = 1; ; index++) {
+    const archivePath = getArchivePath(livePath, index);
+    let modified: number;
+    try {
+      modified = (await fs.stat(archivePath)).mtimeMs;
+    } catch (error) {
+      return;
+    }
+    if (index > retention.maxFiles || modified < oldest) {
+      await fs.rm(archivePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Apply a process's retention settings to its log files. Rotation updates
+ * `rotatedLogBytes`, which keeps stored offsets and log cursors pointing at
+ * the same lines. Returns true when the config changed.
+ */
+export async function enforceLogRetention(config: ManagedProcessConfig, backend: ProcessBackend): Promise<boolean> {
+  const retention = getLogRetention(config);
+  const maxSize = parseMemorySize(retention.maxSize);
+  let changed = false;
+
+  for (const stream of LOG_STREAMS) {
+    const livePath = backend.getLogPath(config.name, stream);
+    await pruneArchives(livePath, retention);
+    if (await getFileSize(livePath) <= maxSize) {
+      continue;
+    }
+    const rotated = await rotateLogFile(livePath, retention.maxFiles);
+    config.rotatedLogBytes = {
+      out: config.rotatedLogBytes?.out ?? 0,
+      error: config.rotatedLogBytes?.error ?? 0,
+      [stream]: (config.rotatedLogBytes?.[stream] ?? 0) + rotated
+    };
+    changed = true;
+  }
+  return changed;
+}
+
+async function enforceRetentionForProject(session: ProjectSession) {
+  let changed = false;
+  for (const config of Object.values(session.state.managedProcesses)) {
+    const backend = await resolveBackend(config, session);
+    changed = (await enforceLogRetention(config, backend)) || changed;
+  }
+  if (changed) {
+    await persistState(session);
+  }
+}
+
+/**
+ * Check the log files of every loaded project against their retention
+ * settings in the background, so logs never grow without bound
+ */
+export function startLogRetention() {
+  if (retentionTimer) {
+    return;
+  }
+  const tick = () => {
+    retentionTimer = setTimeout(async () => {
+      for (const session of loadedSessions()) {
+        try {
+          await enforceRetentionForProject(session);
+        } catch (error) {
+          // Log files busy or backend unavailable; try again next round
+        }
+      }
+      tick();
+    }, LOG_RETENTION_INTERVAL_MS);
+    // Retention must never keep the MCP process alive on its own
+    retentionTimer.unref();
+  };
+  tick();
+}
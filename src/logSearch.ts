@@ -0,0 +1,150 @@
+import * as fsSync from 'fs';
+import * as readline from 'readline';
+import { LogStream } from './backends/index.js';
+import { listLogSegments, LogSource, parseLogLine } from './logs.js';
+
+export interface LogSearchOptions {
+  pattern: RegExp;
+  since?: Date;
+  until?: Date;
+  before: number; // Context lines before each match
+  after: number; // Context lines after each match
+  maxMatches: number;
+}
+
+export interface LogContextLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface LogMatch {
+  stream: LogStream;
+  lineNumber: number; // 1-based line, counted from the oldest archive kept
+  timestamp?: string;
+  text: string;
+  before: LogContextLine[];
+  after: LogContextLine[];
+}
+
+export interface LogSearchResult {
+  matches: LogMatch[];
+  truncated: boolean; // More matches exist beyond maxMatches
+  rotatedAway: boolean; // Part of the searched time range was pruned along with old archives
+}
+
+/**
+ * Scan a stream's archives (oldest first) and live file line by line, as one
+ * log. Lines without their own timestamp (stack trace continuations, ...)
+ * inherit the one before them; when a time window is given, lines with no
+ * known timestamp are skipped.
+ */
+export async function searchLogHistory(
+  source: LogSource,
+  stream: LogStream,
+  options: LogSearchOptions
+): Promise<LogSearchResult> {
+  const matches: LogMatch[] = [];
+  let truncated = false;
+  const segments = await listLogSegments(source);
+
+  const recent: LogContextLine[] = [];
+  const awaitingContext: LogMatch[] = [];
+  let firstTimestamp: Date | undefined;
+  let lastTimestamp: Date | undefined;
+  let lineNumber = 0;
+
+  for (const segment of segments) {
+    let input: fsSync.ReadStream;
+    try {
+      input = fsSync.createReadStream(segment.path, { encoding: 'utf8' });
+      await new Promise<void>((resolve, reject) => {
+        input.once('open', () => resolve());
+        input.once('error', reject);
+      });
+    } catch (error) {
+      // No log file yet, or the archive was pruned meanwhile
+      continue;
+    }
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    for await (const raw of lines) {
+      lineNumber++;
+      const parsed = parseLogLine(raw);
+      lastTimestamp = parsed.timestamp || lastTimestamp;
+      firstTimestamp = firstTimestamp || parsed.timestamp;
+      const current = { lineNumber, text: parsed.text };
+
+      for (const match of awaitingContext) {
+        match.after.push(current);
+      }
+      while (awaitingContext.length > 0 && awaitingContext[0].after.length >= options.after) {
+        awaitingContext.shift();
+      }
+
+      const inWindow = (!options.since && !options.until) || (
+        lastTimestamp !== undefined &&
+        (!options.since || lastTimestamp >= options.since) &&
+        (!options.until || lastTimestamp <= options.until)
+      );
+
+      if (inWindow && options.pattern.test(parsed.text)) {
+        if (matches.length >= options.maxMatches) {
+          truncated = true;
+        } else {
+          const match: LogMatch = {
+            stream,
+            lineNumber,
+            timestamp: lastTimestamp?.toISOString(),
+            text: parsed.text,
+            before: [...recent],
+            after: []
+          };
+          matches.push(match);
+          if (options.after > 0) {
+            awaitingContext.push(match);
+          }
+        }
+      }
+
+      if (truncated && awaitingContext.length === 0) {
+        break;
+      }
+
+      recent.push(current);
+      if (recent.length > options.before) {
+        recent.shift();
+      }
+    }
+
+    lines.close();
+    input.destroy();
+    if (truncated && awaitingContext.length === 0) {
+      break;
+    }
+  }
+
+  // Output older than the oldest archive is gone; it matters when the window reaches back that far
+  const rotatedAway = segments[0].start > 0
+    && (!options.since || !firstTimestamp || firstTimestamp > options.since);
+  return { matches, truncated, rotatedAway };
+}
+
+/**
+ * Merge per-stream results into one chronological list capped at maxMatches.
+ * Matches without timestamps keep their per-stream order.
+ */
+export function mergeSearchResults(results: LogSearchResult[], maxMatches: number): LogSearchResult {
+  const all = results.flatMap(result => result.matches);
+  all.sort((a, b) => {
+    if (a.timestamp && b.timestamp && a.timestamp !== b.timestamp) {
+      return a.timestamp.localeCompare(b.timestamp);
+    }
+    return 0;
+  });
+
+  return {
+    matches: all.slice(0, maxMatches),
+    truncated: all.length > maxMatches || results.some(result => result.truncated),
+    rotatedAway: results.some(result => result.rotatedAway)
+  };
+}
@@ -0,0 +1,497 @@
+import * as fs from 'fs/promises';
+import { LogStream } from './backends/types.js';
+import { LogOffsets } from './types.js';
+
+/**
+ * Helper: return the last `lines` lines of a text file without loading the
+ * whole file. Missing files yield an empty string.
+ */
+export async function tailFile(filePath: string, lines: number): Promise<string> {
+  let fileHandle: fs.FileHandle;
+  try {
+    fileHandle = await fs.open(filePath, 'r');
+  } catch (error) {
+    return '';
+  }
+
+  try {
+    const { size } = await fileHandle.stat();
+    const chunkSize = 64 * 1024;
+    let position = size;
+    let text = '';
+
+    // Read backwards in chunks until we have enough newlines or hit the start
+    while (position > 0) {
+      const readSize = Math.min(chunkSize, position);
+      position -= readSize;
+      const buffer = Buffer.alloc(readSize);
+      await fileHandle.read(buffer, 0, readSize, position);
+      text = buffer.toString('utf8') + text;
+      if (text.split('\n').length > lines + 1) {
+        break;
+      }
+    }
+
+    return text.replace(/\n$/, '').split('\n').slice(-lines).join('\n');
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Helper: read everything appended to a file after `offset` (capped at
+ * `maxBytes`). If the file shrank below the offset it was truncated, so the
+ * read restarts from the beginning.
+ */
+export async function readFileSince(filePath: string, offset: number, maxBytes = 1024 * 1024): Promise<string> {
+  let fileHandle: fs.FileHandle;
+  try {
+    fileHandle = await fs.open(filePath, 'r');
+  } catch (error) {
+    return '';
+  }
+
+  try {
+    const { size } = await fileHandle.stat();
+    const start = size < offset ? 0 : offset;
+    const readSize = Math.min(size - start, maxBytes);
+    if (readSize <= 0) {
+      return '';
+    }
+    const buffer = Buffer.alloc(readSize);
+    await fileHandle.read(buffer, 0, readSize, start);
+    return buffer.toString('utf8');
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Helper: current size of a file, or 0 when it does not exist yet
+ */
+export async function getFileSize(filePath: string): Promise<number> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.size;
+  } catch (error) {
+    return 0;
+  }
+}
+
+// "2025-10-13T21:49:37: " (PM2 --time) or full ISO "2025-10-13T21:49:37.114Z: " (native runner)
+const LOG_TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?): ?/;
+
+/**
+ * Helper: split the timestamp prefix written by PM2 --time or the native
+ * runner from a log line. Lines without one come back unchanged.
+ */
+export function parseLogLine(line: string): { timestamp?: Date; text: string } {
+  const match = line.match(LOG_TIMESTAMP_PATTERN);
+  if (!match) {
+    return { text: line };
+  }
+  const timestamp = new Date(match[1]);
+  if (Number.isNaN(timestamp.getTime())) {
+    return { text: line };
+  }
+  return { timestamp, text: line.slice(match[0].length) };
+}
+
+export interface LogLine {
+  stream: LogStream;
+  lineNumber: number; // 1-based line, counted from the oldest archive kept
+  timestamp?: string;
+  text: string;
+}
+
+/**
+ * Helper: count newlines in the first `upTo` bytes of a file
+ */
+async function countLines(fileHandle: fs.FileHandle, upTo: number): Promise<number> {
+  const chunkSize = 64 * 1024;
+  const buffer = Buffer.alloc(chunkSize);
+  let count = 0;
+  for (let position = 0; position < upTo; position += chunkSize) {
+    const { bytesRead } = await fileHandle.read(buffer, 0, Math.min(chunkSize, upTo - position), position);
+    for (let i = 0; i < bytesRead; i++) {
+      if (buffer[i] === 0x0a) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+export interface LogLineRead {
+  lines: LogLine[];
+  rotatedAway: boolean; // Part of the requested range was pruned along with old archives
+}
+
+/**
+ * Helper: count the newlines of a stream's history before a logical offset
+ */
+async function countSegmentLines(segments: LogSegment[], upTo: number): Promise<number> {
+  let count = 0;
+  for (const segment of segments.filter(segment => segment.start < upTo)) {
+    let fileHandle: fs.FileHandle;
+    try {
+      fileHandle = await fs.open(segment.path, 'r');
+    } catch (error) {
+      continue;
+    }
+    try {
+      count += await countLines(fileHandle, Math.min(segment.size, upTo - segment.start));
+    } finally {
+      await fileHandle.close();
+    }
+  }
+  return count;
+}
+
+/**
+ * Helper: bytes between two logical offsets, read across segment boundaries
+ */
+async function readSegmentBytes(segments: LogSegment[], start: number, stop: number): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for (const segment of segments) {
+    const from = Math.max(start, segment.start);
+    const to = Math.min(stop, segment.start + segment.size);
+    if (to <= from) {
+      continue;
+    }
+    let fileHandle: fs.FileHandle;
+    try {
+      fileHandle = await fs.open(segment.path, 'r');
+    } catch (error) {
+      continue;
+    }
+    try {
+      const buffer = Buffer.alloc(to - from);
+      const { bytesRead } = await fileHandle.read(buffer, 0, to - from, from - segment.start);
+      parts.push(buffer.subarray(0, bytesRead));
+    } finally {
+      await fileHandle.close();
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Read a stream's logs from a logical offset (or only the last `maxBytes`
+ * when no offset is given) as parsed lines, going from the archives into the
+ * live file. Line numbers count from the oldest archive kept. Lines without
+ * a timestamp inherit the previous one, so stack traces keep their time.
+ */
+export async function readLogLines(
+  source: LogSource,
+  stream: LogStream,
+  offset?: number,
+  maxBytes = 5 * 1024 * 1024
+): Promise<LogLineRead> {
+  const segments = await listLogSegments(source);
+  const oldest = segments[0].start;
+  const live = segments[segments.length - 1];
+  const end = live.start + live.size;
+  // An offset past the end means the live file was truncated: read its tail instead
+  const from = offset !== undefined && offset <= end ? offset : undefined;
+  const rotatedAway = from !== undefined && from < oldest;
+
+  let start = from !== undefined ? Math.max(from, oldest) : Math.max(oldest, end - maxBytes);
+  let buffer = await readSegmentBytes(segments, start, Math.min(end, start + maxBytes));
+  if (buffer.length === 0) {
+    return { lines: [], rotatedAway };
+  }
+
+  // A tail read usually starts mid-line; drop the partial first line
+  if (from === undefined && start > oldest) {
+    const firstNewline = buffer.indexOf(0x0a);
+    if (firstNewline !== -1) {
+      start += firstNewline + 1;
+      buffer = buffer.subarray(firstNewline + 1);
+    }
+  }
+
+  const firstLineNumber = (await countSegmentLines(segments, start)) + 1;
+  let lastTimestamp: string | undefined;
+
+  const lines = buffer.toString('utf8').replace(/\n$/, '').split('\n').map((raw, index) => {
+    const parsed = parseLogLine(raw);
+    lastTimestamp = parsed.timestamp?.toISOString() || lastTimestamp;
+    return {
+      stream,
+      lineNumber: firstLineNumber + index,
+      timestamp: lastTimestamp,
+      text: parsed.text
+    };
+  });
+  return { lines, rotatedAway };
+}
+
+/**
+ * A log line from a paged read, tagged with the stream it came from
+ */
+export interface StreamLogLine {
+  stream: LogStream;
+  timestamp?: string;
+  text: string;
+}
+
+export interface LogPage {
+  lines: StreamLogLine[]; // Oldest first, both streams interleaved by time
+  offsets: LogOffsets; // Where the next page starts
+  hasMore: boolean; // Complete lines remain after `offsets`
+}
+
+// Bytes read per stream for one page at most
+const PAGE_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Where a stream's logs live: the live file and how many bytes rotation has
+ * moved out of it (the logical offset of its first byte)
+ */
+export interface LogSource {
+  path: string;
+  rotatedBytes: number;
+}
+
+/**
+ * One file of a stream's log history, an archive or the live file
+ */
+export interface LogSegment {
+  path: string;
+  start: number; // Logical offset of the first byte
+  size: number;
+  archived: boolean;
+}
+
+/**
+ * Helper: path of a log archive, 1 being the newest
+ */
+export function getArchivePath(livePath: string, index: number): string {
+  return `${livePath}.${index}`;
+}
+
+/**
+ * Helper: a stream's segments, oldest first and ending with the live file.
+ * Archives are contiguous, the newest ending where the live file starts.
+ */
+export async function listLogSegments(source: LogSource): Promise<LogSegment[]> {
+  const segments: LogSegment[] = [
+    { path: source.path, start: source.rotatedBytes, size: await getFileSize(source.path), archived: false }
+  ];
+  let start = source.rotatedBytes;
+  for (let index = 1; start > 0; index++) {
+    const archivePath = getArchivePath(source.path, index);
+    let size: number;
+    try {
+      size = (await fs.stat(archivePath)).size;
+    } catch (error) {
+      // Older archives were pruned
+      break;
+    }
+    if (size > start) {
+      // Archive from before the rotation count was kept; its offsets are unknown
+      break;
+    }
+    start -= size;
+    segments.unshift({ path: archivePath, start, size, archived: true });
+  }
+  return segments;
+}
+
+interface StreamChunk {
+  lines: Array<StreamLogLine & { end: number }>; // end: logical offset just past the line
+  start: number;
+  capped: boolean; // More log data follows the chunk (past the byte cap or in a later segment)
+}
+
+/**
+ * Helper: complete lines of a stream from a logical offset, up to
+ * PAGE_MAX_BYTES and never across a segment boundary. A trailing line still
+ * being written to the live file is left for the next read.
+ */
+async function readStreamChunk(segments: LogSegment[], stream: LogStream, offset: number): Promise<StreamChunk> {
+  const live = segments[segments.length - 1];
+  let index = segments.findIndex(segment => offset < segment.start + segment.size);
+  if (index === -1) {
+    if (offset <= live.start + live.size) {
+      return { lines: [], start: offset, capped: false };
+    }
+    // The live file shrank without a rotation (truncated), so start it over
+    index = segments.length - 1;
+    offset = live.start;
+  }
+  const segment = segments[index];
+  // Whatever preceded the oldest archive left has been pruned
+  const start = Math.max(offset, segment.start);
+  const later = segments.slice(index + 1).some(next => next.size > 0);
+
+  let fileHandle: fs.FileHandle;
+  try {
+    fileHandle = await fs.open(segment.path, 'r');
+  } catch (error) {
+    return { lines: [], start, capped: later };
+  }
+
+  try {
+    const { size } = await fileHandle.stat();
+    const position = start - segment.start;
+    const readSize = Math.min(size - position, PAGE_MAX_BYTES);
+    if (readSize <= 0) {
+      return { lines: [], start, capped: later };
+    }
+
+    const buffer = Buffer.alloc(readSize);
+    await fileHandle.read(buffer, 0, readSize, position);
+    const truncatedRead = position + readSize < size;
+    // Archives are complete, so their last line counts even without a newline
+    let usable = segment.archived && !truncatedRead ? readSize : buffer.lastIndexOf(0x0a) + 1;
+    if (usable === 0) {
+      if (!truncatedRead) {
+        return { lines: [], start, capped: later };
+      }
+      // One line longer than the cap comes back in pieces
+      usable = readSize;
+    }
+
+    const lines: StreamChunk['lines'] = [];
+    let lastTimestamp: string | undefined;
+    let cursor = 0;
+    while (cursor < usable) {
+      const newline = buffer.indexOf(0x0a, cursor);
+      const lineEnd = newline === -1 || newline >= usable ? usable : newline;
+      const parsed = parseLogLine(buffer.toString('utf8', cursor, lineEnd).replace(/\r$/, ''));
+      // Lines without a timestamp (stack traces) inherit the previous one
+      lastTimestamp = parsed.timestamp?.toISOString() || lastTimestamp;
+      cursor = Math.min(lineEnd + 1, usable);
+      lines.push({ stream, timestamp: lastTimestamp, text: parsed.text, end: start + cursor });
+    }
+    return { lines, start, capped: truncatedRead || later };
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Helper: byte offset where the last `lines` complete lines of a file begin,
+ * looking back at most PAGE_MAX_BYTES
+ */
+async function findTailOffset(filePath: string, lines: number): Promise<number> {
+  let fileHandle: fs.FileHandle;
+  try {
+    fileHandle = await fs.open(filePath, 'r');
+  } catch (error) {
+    return 0;
+  }
+
+  try {
+    const { size } = await fileHandle.stat();
+    const limit = Math.max(0, size - PAGE_MAX_BYTES);
+    const chunkSize = 64 * 1024;
+    // The last newline ends the last complete line rather than starting one
+    let lastLineEnd: number | undefined;
+    let seen = 0;
+    let earliestLineStart = size;
+    for (let position = size; position > limit;) {
+      const readSize = Math.min(chunkSize, position - limit);
+      position -= readSize;
+      const buffer = Buffer.alloc(readSize);
+      await fileHandle.read(buffer, 0, readSize, position);
+      for (let i = readSize - 1; i >= 0; i--) {
+        if (buffer[i] !== 0x0a) {
+          continue;
+        }
+        if (lastLineEnd === undefined) {
+          lastLineEnd = position + i + 1;
+          continue;
+        }
+        seen++;
+        earliestLineStart = position + i + 1;
+        if (seen === lines) {
+          return earliestLineStart;
+        }
+      }
+    }
+    return limit === 0 ? 0 : earliestLineStart;
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Read a page of a process's logs with the selected streams interleaved by
+ * timestamp. From `from` (logical offsets), the page holds the next
+ * `maxLines` lines, reading into archives where needed; without it, the last
+ * `maxLines` lines of the live files. The returned offsets continue after the
+ * page (streams not read keep their offset, or skip to their end on a tail read).
+ */
+export async function readLogPage(
+  sources: Record<LogStream, LogSource>,
+  streams: LogStream[],
+  maxLines: number,
+  from?: LogOffsets
+): Promise<LogPage> {
+  const offsets: LogOffsets = from
+    ? { ...from }
+    : {
+      out: sources.out.rotatedBytes + await getFileSize(sources.out.path),
+      error: sources.error.rotatedBytes + await getFileSize(sources.error.path)
+    };
+
+  const queues: Array<{ chunk: StreamChunk; next: number }> = [];
+  for (const stream of streams) {
+    const source = sources[stream];
+    const start = from ? from[stream] : source.rotatedBytes + await findTailOffset(source.path, maxLines);
+    const chunk = await readStreamChunk(await listLogSegments(source), stream, start);
+    offsets[stream] = chunk.start;
+    queues.push({ chunk, next: 0 });
+  }
+
+  const merged: StreamLogLine[] = [];
+  while (!from || merged.length < maxLines) {
+    // A stream cut off at the end of its chunk may go on with lines older
+    // than what the other stream has left, so the page ends where its data does
+    if (queues.some(queue => queue.next === queue.chunk.lines.length && queue.chunk.capped)) {
+      break;
+    }
+    const pending = queues.filter(queue => queue.next < queue.chunk.lines.length);
+    if (pending.length === 0) {
+      break;
+    }
+    const earliest = pending.reduce((a, b) =>
+      (b.chunk.lines[b.next].timestamp ?? '') < (a.chunk.lines[a.next].timestamp ?? '') ? b : a
+    );
+    const { end, ...line } = earliest.chunk.lines[earliest.next++];
+    merged.push(line);
+    offsets[line.stream] = end;
+  }
+
+  return {
+    lines: from ? merged : merged.slice(-maxLines),
+    offsets,
+    hasMore: queues.some(queue => queue.next < queue.chunk.lines.length || queue.chunk.capped)
+  };
+}
+
+/**
+ * Helper: opaque cursor for continuing a process's logs at `offsets`
+ */
+export function encodeLogCursor(name: string, offsets: LogOffsets): string {
+  return Buffer.from(JSON.stringify({ name, out: offsets.out, error: offsets.error })).toString('base64url');
+}
+
+export function decodeLogCursor(cursor: string, name: string): LogOffsets {
+  let data: any;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    data = undefined;
+  }
+  if (!data || typeof data.out !== 'number' || typeof data.error !== 'number') {
+    throw new Error('Invalid log cursor; pass the nextCursor returned by read-managed-process-logs.');
+  }
+  if (data.name !== name) {
+    throw new Error(`This log cursor belongs to '${data.name}', not '${name}'.`);
+  }
+  return { out: data.out, error: data.error };
+}
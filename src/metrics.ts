@@ -0,0 +1,235 @@
+import { ProcessBackend, ProcessInfo, resolveBackend } from './backends/index.js';
+import { loadedSessions, ProjectSession } from './state.js';
+import { ManagedProcessConfig } from './types.js';
+
+export const METRICS_INTERVAL_MS = 5000;
+// 30 minutes of history per process at the default interval
+export const MAX_SAMPLES = 360;
+
+// Trend thresholds: below this much change over the run, memory is stable
+const STABLE_GROWTH_PERCENT = 5;
+// How well a straight line has to fit before growth counts as steady
+const STEADY_FIT_R2 = 0.8;
+// A leak needs steady growth of at least this much over at least this long
+const LEAK_MIN_GROWTH_PERCENT = 20;
+const LEAK_MIN_SPAN_MS = 5 * 60 * 1000;
+const TREND_MIN_SAMPLES = 6;
+const TREND_MIN_SPAN_MS = 60 * 1000;
+
+export interface MetricSample {
+  at: number; // Epoch millis
+  pid?: number;
+  cpu?: number; // Percent of one core over the interval before the sample
+  memory?: number; // RSS bytes
+  cpuTimeMs?: number; // Cumulative CPU time reported by the backend
+}
+
+export interface SeriesStats {
+  min: number;
+  max: number;
+  avg: number;
+  latest: number;
+}
+
+export type MemoryTrend = 'insufficient-data' | 'stable' | 'growing' | 'shrinking' | 'fluctuating';
+
+export interface MemoryTrendReport {
+  classification: MemoryTrend;
+  slopeBytesPerMinute?: number;
+  growthPercent?: number;
+  fit?: number; // R² of the linear fit
+  spanMs: number;
+  leakSuspected: boolean;
+}
+
+/**
+ * Fixed-size ring buffer of samples; the oldest sample is overwritten once full
+ */
+interface SampleBuffer {
+  samples: MetricSample[];
+  next: number;
+}
+
+// Samples live for the MCP session, keyed by "<project key>/<process name>"
+const buffers = new Map<string, SampleBuffer>();
+
+let samplerTimer: NodeJS.Timeout | undefined;
+
+function bufferKey(scope: string, name: string): string {
+  return `${scope}/${name}`;
+}
+
+function pushSample(buffer: SampleBuffer, sample: MetricSample) {
+  if (buffer.samples.length < MAX_SAMPLES) {
+    buffer.samples.push(sample);
+  } else {
+    buffer.samples[buffer.next] = sample;
+  }
+  buffer.next = (buffer.next + 1) % MAX_SAMPLES;
+}
+
+function orderedSamples(buffer: SampleBuffer): MetricSample[] {
+  if (buffer.samples.length < MAX_SAMPLES) {
+    return [...buffer.samples];
+  }
+  return [...buffer.samples.slice(buffer.next), ...buffer.samples.slice(0, buffer.next)];
+}
+
+function lastSample(buffer: SampleBuffer): MetricSample | undefined {
+  return buffer.samples.length === 0
+    ? undefined
+    : buffer.samples[(buffer.next - 1 + buffer.samples.length) % buffer.samples.length];
+}
+
+/**
+ * Helper: CPU over the last interval from cumulative CPU time when the
+ * backend reports it (ps %CPU is a lifetime average), else the backend figure
+ */
+function intervalCpu(info: ProcessInfo, previous: MetricSample | undefined, at: number): number | undefined {
+  if (info.cpuTimeMs !== undefined && previous?.cpuTimeMs !== undefined && previous.pid === info.pid && at > previous.at) {
+    const percent = ((info.cpuTimeMs - previous.cpuTimeMs) / (at - previous.at)) * 100;
+    return Math.max(0, Math.round(percent * 10) / 10);
+  }
+  return info.cpu;
+}
+
+export function recordSample(scope: string, info: ProcessInfo, at = Date.now()) {
+  const key = bufferKey(scope, info.name);
+  let buffer = buffers.get(key);
+  if (!buffer) {
+    buffer = { samples: [], next: 0 };
+    buffers.set(key, buffer);
+  }
+  pushSample(buffer, {
+    at,
+    pid: info.pid,
+    cpu: intervalCpu(info, lastSample(buffer), at),
+    memory: info.memory,
+    cpuTimeMs: info.cpuTimeMs
+  });
+}
+
+/**
+ * Samples of a process, oldest first, optionally limited to the last `sinceMs`
+ */
+export function getSamples(scope: string, name: string, sinceMs?: number): MetricSample[] {
+  const buffer = buffers.get(bufferKey(scope, name));
+  if (!buffer) {
+    return [];
+  }
+  const samples = orderedSamples(buffer);
+  return sinceMs === undefined ? samples : samples.filter(sample => sample.at >= Date.now() - sinceMs);
+}
+
+export function summarize(values: Array<number | undefined>): SeriesStats | undefined {
+  const known = values.filter((value): value is number => typeof value === 'number');
+  if (known.length === 0) {
+    return undefined;
+  }
+  return {
+    min: Math.min(...known),
+    max: Math.max(...known),
+    avg: known.reduce((total, value) => total + value, 0) / known.length,
+    latest: known[known.length - 1]
+  };
+}
+
+/**
+ * Classify memory over the current run (samples of the latest PID) with a
+ * least-squares line: steady growth that fits the line well, is large enough
+ * and lasts long enough is flagged as a suspected leak
+ */
+export function classifyMemoryTrend(samples: MetricSample[]): MemoryTrendReport {
+  const latestPid = samples[samples.length - 1]?.pid;
+  const run = samples.filter(sample => sample.pid === latestPid && typeof sample.memory === 'number');
+  const spanMs = run.length > 1 ? run[run.length - 1].at - run[0].at : 0;
+  if (run.length < TREND_MIN_SAMPLES || spanMs < TREND_MIN_SPAN_MS) {
+    return { classification: 'insufficient-data', spanMs, leakSuspected: false };
+  }
+
+  const xs = run.map(sample => (sample.at - run[0].at) / 60000);
+  const ys = run.map(sample => sample.memory!);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  const slope = covariance / varianceX;
+  const fit = varianceY === 0 ? 1 : (covariance * covariance) / (varianceX * varianceY);
+  const start = meanY - slope * meanX;
+  const end = start + slope * xs[xs.length - 1];
+  const growthPercent = start > 0 ? ((end - start) / start) * 100 : 0;
+
+  let classification: MemoryTrend;
+  if (Math.abs(growthPercent) < STABLE_GROWTH_PERCENT) {
+    classification = 'stable';
+  } else if (fit < STEADY_FIT_R2) {
+    classification = 'fluctuating';
+  } else {
+    classification = slope > 0 ? 'growing' : 'shrinking';
+  }
+
+  return {
+    classification,
+    slopeBytesPerMinute: Math.round(slope),
+    growthPercent: Math.round(growthPercent * 10) / 10,
+    fit: Math.round(fit * 100) / 100,
+    spanMs,
+    leakSuspected: classification === 'growing'
+      && growthPercent >= LEAK_MIN_GROWTH_PERCENT
+      && spanMs >= LEAK_MIN_SPAN_MS
+  };
+}
+
+/**
+ * Called after each new sample with the process's samples, oldest first
+ */
+export type SampleListener = (session: ProjectSession, config: ManagedProcessConfig, samples: MetricSample[]) => void;
+
+async function sampleRunningProcesses(session: ProjectSession, onSample?: SampleListener) {
+  const scope = session.project.key;
+  const listings = new Map<ProcessBackend, ProcessInfo[]>();
+  const at = Date.now();
+
+  for (const config of Object.values(session.state.managedProcesses)) {
+    const backend = await resolveBackend(config, session);
+    if (!listings.has(backend)) {
+      listings.set(backend, await backend.list());
+    }
+    const info = listings.get(backend)!.find(entry => entry.name === config.name);
+    if (info?.status === 'online' && (info.memory !== undefined || info.cpu !== undefined)) {
+      recordSample(scope, info, at);
+      onSample?.(session, config, getSamples(scope, config.name));
+    }
+  }
+}
+
+/**
+ * Sample CPU and memory of the online processes of every loaded project in the
+ * background, so trends are available without anyone polling for them
+ */
+export function startMetricsSampler(onSample?: SampleListener) {
+  if (samplerTimer) {
+    return;
+  }
+  const tick = () => {
+    samplerTimer = setTimeout(async () => {
+      for (const session of loadedSessions()) {
+        try {
+          await sampleRunningProcesses(session, onSample);
+        } catch (error) {
+          // Backend unavailable; try again next round
+        }
+      }
+      tick();
+    }, METRICS_INTERVAL_MS);
+    // The sampler must never keep the MCP process alive on its own
+    samplerTimer.unref();
+  };
+  tick();
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 10000;
+// A lock older than this is left over from a crashed writer
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Write a file by writing a temporary sibling and renaming it over the
+ * target, so readers never see a half-written file
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.tmp`);
+  try {
+    await fs.writeFile(tempPath, data, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Helper: the lock file's stats when it was left by a crashed or dead owner,
+ * null while its owner is alive (or the lock is already gone)
+ */
+async function findStaleLock(lockPath: string): Promise<Stats | null> {
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)]);
+    if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+      return stats;
+    }
+    const pid = Number(content);
+    if (!pid) {
+      return null;
+    }
+    try {
+      process.kill(pid, 0);
+      return null;
+    } catch (error: any) {
+      // EPERM means the owner is alive but belongs to someone else
+      return error?.code === 'ESRCH' ? stats : null;
+    }
+  } catch (error) {
+    // The lock vanished (or is unreadable) in the meantime; let the caller retry
+    return null;
+  }
+}
+
+/**
+ * Helper: remove a stale lock without racing other instances breaking it
+ * too. The lock is renamed to a name of our own first, which only one of
+ * them manages; if the file taken is not the one judged stale (a new owner
+ * locked in between), it is put back.
+ */
+async function breakStaleLock(lockPath: string, stale: Stats) {
+  const claimedPath = `${lockPath}.stale-${randomUUID()}`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch (error) {
+    // Someone else broke it first
+    return;
+  }
+  try {
+    const claimed = await fs.stat(claimedPath);
+    if (claimed.ino !== stale.ino || claimed.mtimeMs !== stale.mtimeMs) {
+      // Fails only if yet another owner locked meanwhile, which then holds it
+      await fs.link(claimedPath, lockPath).catch(() => undefined);
+    }
+  } finally {
+    await fs.rm(claimedPath, { force: true });
+  }
+}
+
+/**
+ * Run `action` while holding an advisory lock on `filePath` (a sibling
+ * ".lock" file created exclusively). Locks left by dead processes are broken.
+ */
+export async function withFileLock<T>(filePath: string, action: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+      const stale = await findStaleLock(lockPath);
+      if (stale) {
+        await breakStaleLock(lockPath, stale);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockPath}; remove it if no other MCP instance is running`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await action();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Move an unparseable file aside (keeping its content for manual recovery)
+ * and return the backup path
+ */
+export async function backupCorruptFile(filePath: string): Promise<string> {
+  const backupPath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  await fs.rename(filePath, backupPath);
+  return backupPath;
+}
@@ -0,0 +1,203 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import { ManagedProcessConfig } from './types.js';
+import { probeTcp } from './probes.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_PORT_ENV = 'PORT';
+// How far past the declared port to look before letting the OS pick one
+const FREE_PORT_SEARCH_RANGE = 100;
+const TCP_LISTEN_STATE = '0A';
+
+export interface PortOwner {
+  pid: number;
+  command: string;
+}
+
+/**
+ * Port a process will bind: the explicit `port` setting, otherwise the
+ * numeric value of its port env key (PORT by default)
+ */
+export function getDeclaredPort(config: ManagedProcessConfig): number | undefined {
+  if (config.port) {
+    return config.port;
+  }
+  const value = Number(config.env?.[config.portEnv || DEFAULT_PORT_ENV]);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function canListen(port: number, host: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen({ port, host, exclusive: true }, () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
+
+/**
+ * Helper: true when something accepts connections on the port, or we cannot
+ * bind it ourselves
+ */
+export async function isPortInUse(port: number): Promise<boolean> {
+  const [ipv4, ipv6] = await Promise.all([
+    probeTcp(port, '127.0.0.1', 500),
+    probeTcp(port, '::1', 500)
+  ]);
+  if (ipv4.ok || ipv6.ok) {
+    return true;
+  }
+  return !(await canListen(port, '0.0.0.0'));
+}
+
+/**
+ * Helper: pick a free port, preferring the ones right after `preferred`
+ * the way Vite and Next.js do
+ */
+export async function findFreePort(preferred: number): Promise<number> {
+  for (let port = preferred + 1; port <= Math.min(preferred + FREE_PORT_SEARCH_RANGE, 65535); port++) {
+    if (!(await isPortInUse(port))) {
+      return port;
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const address = server.address() as net.AddressInfo;
+      server.close(() => resolve(address.port));
+    });
+  });
+}
+
+async function readCommandLine(pid: number): Promise<string> {
+  try {
+    const raw = await fs.readFile(`/proc/${pid}/cmdline`, 'utf-8');
+    return raw.split('\0').filter(Boolean).join(' ');
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Helper: socket inodes listening on a port, from /proc/net/tcp{,6}
+ */
+async function findListeningInodes(port: number): Promise<Set<string>> {
+  const inodes = new Set<string>();
+  const portHex = port.toString(16).toUpperCase().padStart(4, '0');
+
+  for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let data: string;
+    try {
+      data = await fs.readFile(table, 'utf-8');
+    } catch (error) {
+      continue;
+    }
+    for (const line of data.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      // fields: sl local_address rem_address st ... uid timeout inode
+      const localPort = fields[1]?.split(':')[1];
+      if (localPort === portHex && fields[3] === TCP_LISTEN_STATE && fields[9] && fields[9] !== '0') {
+        inodes.add(fields[9]);
+      }
+    }
+  }
+
+  return inodes;
+}
+
+async function findOwnerViaProc(port: number): Promise<PortOwner | null> {
+  const inodes = await findListeningInodes(port);
+  if (inodes.size === 0) {
+    return null;
+  }
+
+  const pids = (await fs.readdir('/proc')).filter(entry => /^\d+$/.test(entry));
+  for (const pid of pids) {
+    let fds: string[];
+    try {
+      fds = await fs.readdir(`/proc/${pid}/fd`);
+    } catch (error) {
+      // Process exited or belongs to another user
+      continue;
+    }
+    for (const fd of fds) {
+      try {
+        const target = await fs.readlink(`/proc/${pid}/fd/${fd}`);
+        const match = target.match(/^socket:\[(\d+)\]$/);
+        if (match && inodes.has(match[1])) {
+          return { pid: Number(pid), command: await readCommandLine(Number(pid)) };
+        }
+      } catch (error) {
+        // fd closed while scanning
+      }
+    }
+  }
+
+  return null;
+}
+
+async function findOwnerViaLsof(port: number): Promise<PortOwner | null> {
+  try {
+    const { stdout } = await execFileAsync('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-Fpc']);
+    // -F output: one field per line, "p<pid>" then "c<command>"
+    const pid = stdout.match(/^p(\d+)$/m);
+    const command = stdout.match(/^c(.+)$/m);
+    return pid ? { pid: Number(pid[1]), command: command?.[1] || '' } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Identify the process listening on a port: /proc on Linux, lsof elsewhere
+ */
+export async function findPortOwner(port: number): Promise<PortOwner | null> {
+  try {
+    await fs.access('/proc/net/tcp');
+  } catch (error) {
+    return findOwnerViaLsof(port);
+  }
+  return findOwnerViaProc(port);
+}
+
+/**
+ * Rewrite a config so it runs on `port`: the port env key is injected and
+ * readiness/health checks aimed at the old port follow along
+ */
+export function withPort(config: ManagedProcessConfig, from: number, port: number): ManagedProcessConfig {
+  const retarget = (url: string) => url.replace(new RegExp(`:${from}(?=\\b|/|$)`), `:${port}`);
+
+  return {
+    ...config,
+    port: config.port ? port : undefined,
+    env: {
+      ...(config.env || {}),
+      [config.portEnv || DEFAULT_PORT_ENV]: String(port)
+    },
+    readiness: config.readiness?.type === 'tcp' && config.readiness.port === from
+      ? { ...config.readiness, port }
+      : config.readiness?.type === 'http'
+        ? { ...config.readiness, url: retarget(config.readiness.url) }
+        : config.readiness,
+    healthChecks: config.healthChecks?.map(check =>
+      check.type === 'tcp'
+        ? (check.port === from ? { ...check, port } : check)
+        : { ...check, url: retarget(check.url) }
+    )
+  };
+}
+
+/**
+ * Helper: a config as it actually runs, moved to the port autoAssignPort
+ * picked for it (if any)
+ */
+export function withAssignedPort(config: ManagedProcessConfig): ManagedProcessConfig {
+  const assignment = config.assignedPort;
+  return assignment ? withPort(config, assignment.declared, assignment.port) : config;
+}
@@ -0,0 +1,47 @@
+import * as net from 'net';
+
+const DEFAULT_PROBE_TIMEOUT_MS = 2000;
+
+export interface ProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Helper: check that a TCP connection to host:port can be opened
+ */
+export function probeTcp(port: number, host = '127.0.0.1', timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<ProbeResult> {
+  const startedAt = Date.now();
+  return new Promise(resolve => {
+    const socket = net.connect({ port, host });
+    const finish = (ok: boolean, error?: string) => {
+      socket.destroy();
+      resolve({ ok, latencyMs: Date.now() - startedAt, error });
+    };
+    socket.setTimeout(timeoutMs, () => finish(false, `timed out after ${timeoutMs}ms`));
+    socket.once('connect', () => finish(true));
+    socket.once('error', error => finish(false, error.message));
+  });
+}
+
+/**
+ * Helper: check that a GET request to the URL answers with a 2xx status
+ */
+export async function probeHttp(url: string, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<ProbeResult> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    return {
+      ok: response.ok,
+      latencyMs: Date.now() - startedAt,
+      error: response.ok ? undefined : `HTTP ${response.status}`
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NATIVE_HOME } from './backends/native.js';
+import { withFileLock, writeFileAtomic } from './persistence.js';
+
+export const STATE_FILE_NAME = '.the-dev-server-state.json';
+export const DESCRIPTOR_FILE_NAME = 'devserver.config.json';
+
+// Every project root this machine has managed, so registries can be listed together
+const PROJECTS_FILE = path.join(NATIVE_HOME, 'projects.json');
+
+/**
+ * A project is identified by its root directory. The key is a short,
+ * stable slug of that root used to namespace backend process names.
+ */
+export interface ProjectContext {
+  root: string;
+  key: string;
+  stateFile: string;
+  descriptorFile: string;
+}
+
+export interface KnownProject {
+  root: string;
+  key: string;
+  lastUsed: string;
+}
+
+export function projectContext(root: string): ProjectContext {
+  const resolved = path.resolve(root);
+  const slug = path.basename(resolved).replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'root';
+  const hash = createHash('sha1').update(resolved).digest('hex').slice(0, 6);
+  return {
+    root: resolved,
+    key: `${slug}-${hash}`,
+    stateFile: path.join(resolved, STATE_FILE_NAME),
+    descriptorFile: path.join(resolved, DESCRIPTOR_FILE_NAME)
+  };
+}
+
+// Tools without a project selector act on the directory the MCP was started in
+export const DEFAULT_PROJECT = projectContext(process.cwd());
+
+/**
+ * Helper: name a process has in the (machine-global) backend, e.g. "web@shop-1a2b3c"
+ */
+export function namespacedName(project: ProjectContext, name: string): string {
+  return `${name}@${project.key}`;
+}
+
+/**
+ * Helper: registry name for a backend process name, or null when the process
+ * belongs to another project (or predates namespacing)
+ */
+export function localName(project: ProjectContext, backendName: string): string | null {
+  const suffix = `@${project.key}`;
+  return backendName.endsWith(suffix) ? backendName.slice(0, -suffix.length) : null;
+}
+
+export async function listKnownProjects(): Promise<KnownProject[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(PROJECTS_FILE, 'utf-8'));
+    return Array.isArray(data.projects) ? data.projects : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+let pendingWrite: Promise<void> = Promise.resolve();
+const remembered = new Set<string>();
+
+/**
+ * Add a project to the machine-wide index (once per MCP session)
+ */
+export async function rememberProject(project: ProjectContext): Promise<void> {
+  if (remembered.has(project.root)) {
+    return;
+  }
+  remembered.add(project.root);
+
+  pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+    await fs.mkdir(path.dirname(PROJECTS_FILE), { recursive: true });
+    // Shared by every MCP instance on the machine
+    await withFileLock(PROJECTS_FILE, async () => {
+      const projects = (await listKnownProjects()).filter(known => known.root !== project.root);
+      projects.push({ root: project.root, key: project.key, lastUsed: new Date().toISOString() });
+      await writeFileAtomic(PROJECTS_FILE, JSON.stringify({ projects }, null, 2));
+    });
+  });
+  await pendingWrite;
+}
+
+/**
+ * Resolve a project selector: a known project's key or folder name, or a
+ * path to the project root (relative to the MCP's directory). Omitted means
+ * the MCP's own project.
+ */
+export async function resolveProject(selector?: string): Promise<ProjectContext> {
+  if (!selector) {
+    return DEFAULT_PROJECT;
+  }
+
+  const known = await listKnownProjects();
+  const byKey = known.find(project => project.key === selector);
+  if (byKey) {
+    return projectContext(byKey.root);
+  }
+  const byName = known.filter(project => path.basename(project.root) === selector);
+  if (byName.length === 1) {
+    return projectContext(byName[0].root);
+  }
+  if (byName.length > 1) {
+    throw new Error(
+      `Project name '${selector}' is ambiguous: ${byName.map(project => `${project.key} (${project.root})`).join(', ')}`
+    );
+  }
+
+  const root = path.resolve(DEFAULT_PROJECT.root, selector);
+  try {
+    if ((await fs.stat(root)).isDirectory()) {
+      return projectContext(root);
+    }
+  } catch (error) {
+    // Fall through to the error below
+  }
+  throw new Error(`Unknown project '${selector}'. Pass a project root path, or a key/name from list-all-managed-processes.`);
+}
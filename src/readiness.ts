@@ -0,0 +1,115 @@
+import { LogOffsets, ManagedProcessConfig, ReadinessConfig } from './types.js';
+import { ProcessBackend } from './backends/index.js';
+import { getFileSize, readFileSince } from './logs.js';
+import { detectServerUrls } from './urls.js';
+import { probeHttp, probeTcp } from './probes.js';
+
+export const DEFAULT_READY_TIMEOUT_MS = 60000;
+// Without a readiness config we only wait for the server to announce a URL
+const URL_DETECTION_WINDOW_MS = 5000;
+const POLL_INTERVAL_MS = 250;
+
+export interface ReadinessResult {
+  ready: boolean;
+  elapsedMs: number;
+  url?: string;
+  urls: string[]; // Every URL announced in the logs of this run
+  probed?: boolean; // A TCP/HTTP readiness probe confirmed the server
+  reason?: string; // Why readiness failed
+}
+
+/**
+ * Helper: true when `pattern` compiles as a regular expression
+ */
+export function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Helper: remember where both log files end so only new output is inspected
+ */
+export async function captureLogOffsets(backend: ProcessBackend, name: string): Promise<LogOffsets> {
+  const [out, error] = await Promise.all([
+    getFileSize(backend.getLogPath(name, 'out')),
+    getFileSize(backend.getLogPath(name, 'error'))
+  ]);
+  return { out, error };
+}
+
+async function readFreshLogs(backend: ProcessBackend, name: string, offsets: LogOffsets): Promise<string> {
+  const [out, error] = await Promise.all([
+    readFileSince(backend.getLogPath(name, 'out'), offsets.out),
+    readFileSince(backend.getLogPath(name, 'error'), offsets.error)
+  ]);
+  return `${out}\n${error}`;
+}
+
+async function checkReadiness(readiness: ReadinessConfig, freshLogs: string): Promise<boolean> {
+  switch (readiness.type) {
+    case 'log':
+      return new RegExp(readiness.pattern).test(freshLogs);
+    case 'tcp':
+      return (await probeTcp(readiness.port, readiness.host)).ok;
+    case 'http':
+      return (await probeHttp(readiness.url)).ok;
+  }
+}
+
+function describeReadiness(readiness: ReadinessConfig): string {
+  switch (readiness.type) {
+    case 'log':
+      return `log output matching /${readiness.pattern}/`;
+    case 'tcp':
+      return `TCP port ${readiness.host || '127.0.0.1'}:${readiness.port}`;
+    case 'http':
+      return `HTTP 2xx from ${readiness.url}`;
+  }
+}
+
+/**
+ * Block until a just-started process is ready, has died, or timed out.
+ * With no readiness config the process counts as ready once it stays up,
+ * and we only linger (briefly) to pick up the URL it announces.
+ */
+export async function waitForReady(
+  config: ManagedProcessConfig,
+  backend: ProcessBackend,
+  offsets: LogOffsets
+): Promise<ReadinessResult> {
+  const startedAt = Date.now();
+  const readiness = config.readiness;
+  const timeoutMs = readiness
+    ? readiness.timeoutMs ?? DEFAULT_READY_TIMEOUT_MS
+    : URL_DETECTION_WINDOW_MS;
+
+  while (true) {
+    const freshLogs = await readFreshLogs(backend, config.name, offsets);
+    const urls = detectServerUrls(freshLogs);
+    const url = urls[0];
+    const elapsedMs = Date.now() - startedAt;
+
+    const info = await backend.getInfo(config.name);
+    if (info && (info.status === 'errored' || info.status === 'stopped')) {
+      return { ready: false, elapsedMs, url, urls, reason: `process exited (status: ${info.status}) before becoming ready` };
+    }
+
+    if (readiness ? await checkReadiness(readiness, freshLogs) : url !== undefined) {
+      return { ready: true, elapsedMs, url, urls, probed: readiness !== undefined && readiness.type !== 'log' };
+    }
+
+    if (elapsedMs >= timeoutMs) {
+      if (!readiness) {
+        // Nothing to wait for; the process is up but did not print a URL
+        return { ready: true, elapsedMs, url, urls };
+      }
+      return { ready: false, elapsedMs, url, urls, reason: `timed out after ${timeoutMs}ms waiting for ${describeReadiness(readiness)}` };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { BACKEND_KINDS, LIMIT_ACTIONS, PROCESS_NAME_PATTERN } from './types.js';
+import { MEMORY_SIZE_PATTERN } from './limits.js';
+import { isValidRegExp } from './readiness.js';
+
+// Registration field schemas shared by the register/update tools and the
+// checked-in descriptor, so both accept exactly the same values
+
+export const processNameSchema = z.string().regex(
+  PROCESS_NAME_PATTERN,
+  'Use 1-64 letters, digits, ".", "_" or "-", starting with a letter or digit'
+);
+
+export const memorySizeSchema = z.string().regex(MEMORY_SIZE_PATTERN, 'Use a size such as "800M" or "1.5G"');
+
+// Readiness check run by start/restart before reporting success
+export const readinessSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('log'),
+    pattern: z.string()
+      .refine(isValidRegExp, 'Not a valid regular expression')
+      .describe('Regex matched against output written since the start'),
+    timeoutMs: z.number().optional()
+  }),
+  z.object({
+    type: z.literal('tcp'),
+    port: z.number(),
+    host: z.string().optional(),
+    timeoutMs: z.number().optional()
+  }),
+  z.object({
+    type: z.literal('http'),
+    url: z.string().describe('URL that must answer with a 2xx status'),
+    timeoutMs: z.number().optional()
+  })
+]);
+
+// Background probe that feeds the health field of status tools
+export const healthCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('http'),
+    url: z.string().describe('URL that must answer with a 2xx status'),
+    intervalMs: z.number().optional().describe('Time between probes (default 10000)'),
+    failureThreshold: z.number().optional().describe('Consecutive failures before unhealthy (default 3)'),
+    timeoutMs: z.number().optional()
+  }),
+  z.object({
+    type: z.literal('tcp'),
+    port: z.number(),
+    host: z.string().optional(),
+    intervalMs: z.number().optional().describe('Time between probes (default 10000)'),
+    failureThreshold: z.number().optional().describe('Consecutive failures before unhealthy (default 3)'),
+    timeoutMs: z.number().optional()
+  })
+]);
+
+export const logRetentionSchema = z.object({
+  maxSize: memorySizeSchema.optional().describe('Rotate the live log past this size (default "10M")'),
+  maxFiles: z.number().int().min(0).optional().describe('Archives kept per stream (default 5)'),
+  maxAgeDays: z.number().positive().optional().describe('Delete archives older than this (default 14)')
+});
+
+export const watchSchema = z.union([
+  z.boolean(),
+  z.object({
+    include: z.array(z.string()).optional().describe('Globs of files whose changes restart the process (default: everything)'),
+    ignore: z.array(z.string()).optional().describe('Globs never triggering a restart, on top of node_modules, .git, build output and logs'),
+    debounceMs: z.number().int().min(0).optional().describe('Wait this long for changes to settle (default 500)'),
+    restartOn: z.array(z.string()).optional().describe('Globs that always restart (e.g. ".env*", "next.config.*", "package.json"); without include, only these do')
+  })
+]);
+
+// One entry of devserver.config.json: the register fields minus the name,
+// which is the key; unknown fields are rejected rather than stored
+export const declaredProcessSchema = z.object({
+  script: z.string(),
+  cwd: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  envFiles: z.array(z.string()).optional(),
+  redactionAllowlist: z.array(z.string()).optional(),
+  interpreter: z.string().optional(),
+  instances: z.number().optional(),
+  watch: watchSchema.optional(),
+  autorestart: z.boolean().optional(),
+  interactive: z.boolean().optional(),
+  backend: z.enum(BACKEND_KINDS).optional(),
+  readiness: readinessSchema.optional(),
+  healthChecks: z.array(healthCheckSchema).optional(),
+  dependsOn: z.array(processNameSchema).optional(),
+  groups: z.array(z.string()).optional(),
+  port: z.number().optional(),
+  portEnv: z.string().optional(),
+  autoAssignPort: z.boolean().optional(),
+  maxMemory: memorySizeSchema.optional(),
+  maxCpuPercent: z.number().positive().optional(),
+  cpuWindowMs: z.number().int().positive().optional(),
+  limitAction: z.enum(LIMIT_ACTIONS).optional(),
+  logRetention: logRetentionSchema.optional()
+}).strict();
@@ -0,0 +1,267 @@
+import * as fs from 'fs/promises';
+import { DevServerState } from './types.js';
+import { mergeDescriptor, readDescriptor } from './descriptor.js';
+import { backupCorruptFile, withFileLock, writeFileAtomic } from './persistence.js';
+import { ProjectContext, rememberProject, resolveProject } from './projects.js';
+
+// Bump together with a new entry in MIGRATIONS
+export const STATE_VERSION = 2;
+
+/**
+ * Each migration upgrades a parsed state file from version `n` to `n + 1`.
+ * Files written before versioning count as version 0.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 0 -> 1: drop malformed entries and make sure every entry carries its name
+  0: data => {
+    const managedProcesses: Record<string, unknown> = {};
+    const entries = data.managedProcesses && typeof data.managedProcesses === 'object' ? data.managedProcesses : {};
+    for (const [name, config] of Object.entries<any>(entries)) {
+      if (config && typeof config === 'object' && typeof config.script === 'string') {
+        managedProcesses[name] = { ...config, name };
+      }
+    }
+    return { ...data, managedProcesses };
+  },
+  // 1 -> 2: the single stdout `logOffset` became per-stream `logOffsets`. The
+  // stderr offset of the current run is unknown, so the old value is dropped.
+  1: data => {
+    const managedProcesses: Record<string, unknown> = {};
+    for (const [name, config] of Object.entries<any>(data.managedProcesses || {})) {
+      const { logOffset, ...rest } = config;
+      managedProcesses[name] = rest;
+    }
+    return { ...data, managedProcesses };
+  }
+};
+
+/**
+ * A project together with its live registry. Tool calls, resources and
+ * background loops each work on the session of the project they act on, so
+ * loading another project never changes what an unfinished call sees or saves.
+ */
+export interface ProjectSession {
+  project: ProjectContext;
+  state: DevServerState;
+}
+
+// Registries loaded in this MCP session, by state file. A project keeps one
+// live state object for the whole session; loading it again refreshes it in place.
+const sessions = new Map<string, ProjectSession>();
+
+// Registry as last read from / written to each state file, used to tell
+// this session's changes apart from those made by other MCP instances
+const baselines = new Map<string, string>();
+
+function migrate(data: any, file: string): any {
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > STATE_VERSION) {
+    throw new Error(
+      `${file} has state version ${version} but this server only understands up to ${STATE_VERSION}; upgrade the-dev-server`
+    );
+  }
+  while (version < STATE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  return data;
+}
+
+/**
+ * Helper: read and migrate a project's state file. A missing file yields
+ * null; an unparseable one is backed up (never silently dropped) and yields
+ * null as well.
+ */
+async function readStateFile(project: ProjectContext): Promise<DevServerState | null> {
+  let data: string;
+  try {
+    data = await fs.readFile(project.stateFile, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    parsed = undefined;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    const backupPath = await backupCorruptFile(project.stateFile);
+    console.error(`Unreadable state file ${project.stateFile} moved to ${backupPath}; starting with an empty registry`);
+    return null;
+  }
+
+  const migrated = migrate(parsed, project.stateFile);
+  return {
+    managedProcesses: migrated.managedProcesses || {},
+    tasks: migrated.tasks,
+    defaultBackend: migrated.defaultBackend,
+    lastSynced: migrated.lastSynced ? new Date(migrated.lastSynced) : undefined,
+    descriptorSync: migrated.descriptorSync
+  };
+}
+
+/**
+ * Helper: read the state file under the writers' lock, so a load never sees
+ * a write in progress and a corrupt file is backed up by one instance only
+ */
+async function readStateFileLocked(project: ProjectContext): Promise<DevServerState | null> {
+  try {
+    return await withFileLock(project.stateFile, () => readStateFile(project));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      // The project folder is gone, and its state file with it
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function applyDescriptor(state: DevServerState, project: ProjectContext) {
+  // Layer the checked-in descriptor on top, so a fresh checkout gets the team's registry
+  try {
+    const descriptor = await readDescriptor(project.descriptorFile);
+    if (descriptor) {
+      mergeDescriptor(state, descriptor, project.descriptorFile);
+    }
+  } catch (error) {
+    console.error(`Ignoring ${project.descriptorFile}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Read a project's registry (local state file plus its descriptor) without
+ * making it the current one
+ */
+export async function readProjectState(project: ProjectContext): Promise<DevServerState> {
+  const state = (await readStateFileLocked(project)) || { managedProcesses: {} };
+  await applyDescriptor(state, project);
+  return state;
+}
+
+/**
+ * Load the registry of the selected project (the MCP's own when omitted)
+ */
+export async function loadState(selector?: string): Promise<ProjectSession> {
+  return loadProject(await resolveProject(selector));
+}
+
+/**
+ * Load (or refresh) a project's registry. The project's session object is
+ * reused so tool calls still in flight keep working on the live registry and
+ * their unsaved changes survive.
+ */
+export async function loadProject(project: ProjectContext): Promise<ProjectSession> {
+  await rememberProject(project);
+  const disk = (await readStateFileLocked(project)) || { managedProcesses: {} };
+  const base = baselines.get(project.stateFile);
+  let session = sessions.get(project.stateFile);
+  if (session && base) {
+    mergeFromDisk(session.state, JSON.parse(base), disk);
+  } else {
+    session = { project, state: disk };
+    sessions.set(project.stateFile, session);
+  }
+  baselines.set(project.stateFile, JSON.stringify(disk));
+  await applyDescriptor(session.state, project);
+  return session;
+}
+
+/**
+ * Every project loaded in this MCP session, for the background loops
+ */
+export function loadedSessions(): ProjectSession[] {
+  return [...sessions.values()];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Helper: per-entry three-way merge of one registry map (processes or tasks)
+ */
+function mergeEntries<T extends object>(local: Record<string, T>, base: Record<string, T>, disk: Record<string, T>) {
+  const names = new Set([...Object.keys(local), ...Object.keys(base), ...Object.keys(disk)]);
+  for (const name of names) {
+    const current = local[name];
+    if (!same(current, base[name])) {
+      continue;
+    }
+    const latest = disk[name];
+    if (!latest) {
+      delete local[name];
+    } else if (current) {
+      for (const key of Object.keys(current)) {
+        delete (current as any)[key];
+      }
+      Object.assign(current, latest);
+    } else {
+      local[name] = latest;
+    }
+  }
+}
+
+/**
+ * Fold the state file's current content into `local`: whatever this session
+ * changed since `base` wins, everything else is taken from `disk`, so work
+ * saved by another MCP instance in the meantime is kept. Entries are updated
+ * in place because tool handlers hold references to them.
+ */
+function mergeFromDisk(local: DevServerState, base: DevServerState, disk: DevServerState) {
+  mergeEntries(local.managedProcesses, base.managedProcesses, disk.managedProcesses);
+  if (local.tasks || disk.tasks) {
+    local.tasks = local.tasks || {};
+    mergeEntries(local.tasks, base.tasks || {}, disk.tasks || {});
+  }
+
+  if (same(local.defaultBackend, base.defaultBackend)) {
+    local.defaultBackend = disk.defaultBackend;
+  }
+  if (same(local.descriptorSync, base.descriptorSync)) {
+    local.descriptorSync = disk.descriptorSync;
+  }
+}
+
+// Writes are chained so concurrent tool work (bulk actions) never interleaves on disk
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Save a project's registry. The read-merge-write runs under an advisory
+ * lock and the file is replaced atomically, so concurrent MCP instances
+ * don't overwrite each other's changes and a crash mid-write never leaves
+ * truncated JSON behind.
+ */
+export async function persistState({ project, state }: ProjectSession): Promise<void> {
+
+  pendingWrite = pendingWrite
+    .catch(() => undefined)
+    .then(() => withFileLock(project.stateFile, async () => {
+      const disk = await readStateFile(project);
+      const base = baselines.get(project.stateFile);
+      if (disk && base) {
+        mergeFromDisk(state, JSON.parse(base), disk);
+      }
+
+      state.lastSynced = new Date();
+      const serialized = JSON.stringify(
+        {
+          version: STATE_VERSION,
+          managedProcesses: state.managedProcesses,
+          tasks: state.tasks,
+          defaultBackend: state.defaultBackend,
+          descriptorSync: state.descriptorSync,
+          lastSynced: state.lastSynced.toISOString()
+        },
+        null,
+        2
+      );
+      await writeFileAtomic(project.stateFile, serialized);
+      baselines.set(project.stateFile, serialized);
+    }));
+  await pendingWrite;
+}
@@ -0,0 +1,73 @@
+/**
+ * Resource subscriptions: clients subscribe to resource URIs and we poll a
+ * cheap fingerprint of each one, notifying when it changes (new log bytes,
+ * status transitions, ...).
+ */
+
+const POLL_INTERVAL_MS = 1000;
+
+type Fingerprint = (uri: string) => Promise<string | undefined>;
+type Notify = (uri: string) => Promise<void>;
+
+// Subscribed URI -> fingerprint seen at the last poll
+const subscriptions = new Map<string, string | undefined>();
+let fingerprintResource: Fingerprint | undefined;
+let notifyUpdated: Notify | undefined;
+let timer: NodeJS.Timeout | undefined;
+let polling = false;
+
+async function poll() {
+  if (polling || !fingerprintResource || !notifyUpdated) {
+    return;
+  }
+  polling = true;
+  try {
+    for (const [uri, previous] of subscriptions) {
+      let current: string | undefined;
+      try {
+        current = await fingerprintResource(uri);
+      } catch (error) {
+        // State locked or unreadable for now; keep the last fingerprint and try again next round
+        continue;
+      }
+      if (!subscriptions.has(uri)) {
+        // Unsubscribed while we were computing
+        continue;
+      }
+      subscriptions.set(uri, current);
+      if (current !== previous) {
+        await notifyUpdated(uri).catch(() => undefined);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+function updateTimer() {
+  if (subscriptions.size > 0 && !timer) {
+    timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    timer.unref();
+  } else if (subscriptions.size === 0 && timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
+
+export function initSubscriptions(fingerprint: Fingerprint, notify: Notify) {
+  fingerprintResource = fingerprint;
+  notifyUpdated = notify;
+}
+
+export async function subscribe(uri: string) {
+  if (!subscriptions.has(uri)) {
+    // Baseline fingerprint so only changes after subscribing are reported
+    subscriptions.set(uri, await fingerprintResource?.(uri));
+  }
+  updateTimer();
+}
+
+export function unsubscribe(uri: string) {
+  subscriptions.delete(uri);
+  updateTimer();
+}
@@ -0,0 +1,146 @@
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NATIVE_HOME, RUNNER_PATH, isAlive, signalProcess } from './backends/native.js';
+import { resolveEnvironment } from './environment.js';
+import { ProjectContext, namespacedName } from './projects.js';
+import { ManagedProcessConfig, TaskConfig, TaskRun } from './types.js';
+
+export const DEFAULT_TASK_TIMEOUT_MS = 10 * 60 * 1000;
+// Runs kept per task; the logs of older runs are deleted with them
+export const MAX_TASK_RUNS = 20;
+// Time between SIGTERM and SIGKILL for a task over its timeout
+const KILL_GRACE_MS = 5000;
+// How long a run without a pid may still be resolving its env and spawning
+const SPAWN_GRACE_MS = 60 * 1000;
+
+// Runs executing in this MCP session, by run id
+const activeRuns = new Set<string>();
+
+function getTaskLogDir(project: ProjectContext, name: string): string {
+  return path.join(NATIVE_HOME, 'tasks', namespacedName(project, name));
+}
+
+/**
+ * Helper: runs that claim to be running although the MCP that ran them is
+ * gone are marked interrupted. Runs of another MCP that has not spawned the
+ * task yet carry no pid and are left alone for a while. Returns true when
+ * anything changed.
+ */
+export function settleOrphanedRuns(task: TaskConfig): boolean {
+  let changed = false;
+  for (const run of task.runs || []) {
+    if (run.status !== 'running' || activeRuns.has(run.id)) {
+      continue;
+    }
+    const spawning = run.pid === undefined && Date.now() - Date.parse(run.startedAt) < SPAWN_GRACE_MS;
+    if (!spawning && !isAlive(run.pid)) {
+      run.status = 'interrupted';
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Add a new run to a task (status running) and drop the oldest runs beyond
+ * MAX_TASK_RUNS together with their log files
+ */
+export async function createTaskRun(task: TaskConfig, project: ProjectContext): Promise<TaskRun> {
+  const startedAt = new Date();
+  const id = `${startedAt.toISOString().replace(/[-:.]/g, '')}-${randomBytes(2).toString('hex')}`;
+  const logDir = getTaskLogDir(project, task.name);
+  const run: TaskRun = {
+    id,
+    status: 'running',
+    startedAt: startedAt.toISOString(),
+    outLog: path.join(logDir, `${id}-out.log`),
+    errorLog: path.join(logDir, `${id}-error.log`)
+  };
+
+  const runs = [...(task.runs || []), run];
+  const dropped = runs.slice(0, Math.max(0, runs.length - MAX_TASK_RUNS));
+  task.runs = runs.slice(-MAX_TASK_RUNS);
+  for (const old of dropped) {
+    await fs.rm(old.outLog, { force: true });
+    await fs.rm(old.errorLog, { force: true });
+  }
+  return run;
+}
+
+/**
+ * Execute a task run to completion through the native runner (timestamped
+ * stdout/stderr in the run's log files) and fill in its outcome. The whole
+ * process group is killed once the timeout passes. `onSpawn` is awaited once
+ * the run has a pid, so callers can persist it while the task is running.
+ */
+export async function executeTaskRun(
+  task: TaskConfig,
+  run: TaskRun,
+  project: ProjectContext,
+  processes: Record<string, ManagedProcessConfig>,
+  onSpawn?: (run: TaskRun) => Promise<void>
+): Promise<TaskRun> {
+  const cwd = path.resolve(project.root, task.cwd || '.');
+  const { env } = await resolveEnvironment({ ...task, cwd }, processes, project.root);
+  const args = task.args || [];
+  const command = task.interpreter || task.script;
+  const commandArgs = task.interpreter ? [task.script, ...args] : args;
+  const timeoutMs = task.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+  await fs.mkdir(path.dirname(run.outLog), { recursive: true });
+
+  const started = Date.now();
+  const child = spawn(process.execPath, [RUNNER_PATH, run.outLog, run.errorLog, command, ...commandArgs], {
+    cwd,
+    env: {
+      ...process.env,
+      ...env
+    },
+    // Own process group, so a timeout takes down everything the task spawned
+    detached: true,
+    stdio: 'ignore'
+  });
+  run.pid = child.pid;
+  activeRuns.add(run.id);
+  const exited = new Promise<[number | null, NodeJS.Signals | null]>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('exit', (code, exitSignal) => resolve([code, exitSignal]));
+  });
+
+  let timedOut = false;
+  let killTimer: NodeJS.Timeout | undefined;
+  const timeoutTimer = setTimeout(() => {
+    timedOut = true;
+    signalProcess(child.pid!, 'SIGTERM');
+    killTimer = setTimeout(() => signalProcess(child.pid!, 'SIGKILL'), KILL_GRACE_MS);
+  }, timeoutMs);
+
+  try {
+    if (run.pid !== undefined && onSpawn) {
+      await onSpawn(run);
+    }
+    const [exitCode, signal] = await exited;
+    run.exitCode = exitCode;
+    run.signal = signal;
+    run.status = timedOut ? 'timed-out' : exitCode === 0 ? 'succeeded' : 'failed';
+  } catch (error) {
+    run.status = 'failed';
+    await fs.appendFile(
+      run.errorLog,
+      `${new Date().toISOString()}: Failed to run task: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+  } finally {
+    clearTimeout(timeoutTimer);
+    clearTimeout(killTimer);
+    activeRuns.delete(run.id);
+    if (timedOut) {
+      // Anything the task left behind in its group goes too
+      signalProcess(child.pid!, 'SIGKILL');
+    }
+  }
+
+  run.finishedAt = new Date().toISOString();
+  run.durationMs = Date.now() - started;
+  return run;
+}
@@ -0,0 +1,205 @@
+/**
+ * Shared registry types for managed development processes
+ */
+
+// Process backends that can supervise a managed process
+export type BackendKind = 'pm2' | 'native';
+
+export const BACKEND_KINDS = ['pm2', 'native'] as const;
+
+// Process names end up in backend process names, file names and resource
+// URIs, so they are limited to a safe character set
+export const PROCESS_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/**
+ * How to tell that a freshly started process is ready to serve
+ * - log:  a regex matched against output written since the start
+ * - tcp:  a TCP connection to host:port succeeds
+ * - http: a GET to the URL returns a 2xx status
+ */
+export type ReadinessConfig =
+  | { type: 'log'; pattern: string; timeoutMs?: number }
+  | { type: 'tcp'; port: number; host?: string; timeoutMs?: number }
+  | { type: 'http'; url: string; timeoutMs?: number };
+
+/**
+ * Periodic liveness probe for a running process. The process turns
+ * unhealthy after `failureThreshold` consecutive failures.
+ */
+export type HealthCheckConfig =
+  | { type: 'http'; url: string; intervalMs?: number; failureThreshold?: number; timeoutMs?: number }
+  | { type: 'tcp'; port: number; host?: string; intervalMs?: number; failureThreshold?: number; timeoutMs?: number };
+
+/**
+ * Where a running server can be reached, refreshed on every start/restart
+ * - log:    announced in the process output
+ * - probe:  confirmed by a TCP/HTTP readiness probe
+ * - config: taken from the declared (or assigned) port
+ */
+export interface ProcessEndpoint {
+  urls: string[];
+  port?: number;
+  source: 'log' | 'probe' | 'config';
+  detectedAt: string;
+}
+
+/**
+ * Free port autoAssignPort moved a process to because its declared port was
+ * busy. Restarts and health probes keep using it until a start finds the
+ * declared port free again.
+ */
+export interface PortAssignment {
+  declared: number;
+  port: number;
+}
+
+/**
+ * One entry in a process's lifecycle history
+ * - start/restart/stop: issued through this server
+ * - exit:  the process ended cleanly on its own
+ * - crash: the process died (non-zero exit, signal, or errored status),
+ *          with the log tail captured when the crash was noticed
+ */
+export interface ProcessEvent {
+  type: 'start' | 'restart' | 'stop' | 'exit' | 'crash';
+  at: string;
+  pid?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  uptimeMs?: number; // Time since the preceding start/restart
+  restarts?: number; // Backend restart counter at the time of the event
+  autorestarted?: boolean; // The backend brought the process back after this crash
+  reason?: string; // Why the server itself restarted or stopped the process (e.g. "memory limit")
+  logOffsets?: LogOffsets; // start/restart: where the run's logs begin
+  logTail?: string;
+}
+
+/**
+ * File watching done by this server (for every backend). Globs without a
+ * slash match any path segment, like .gitignore; paths are relative to cwd.
+ */
+export interface WatchConfig {
+  include?: string[]; // Changes that restart the process (default: everything)
+  ignore?: string[]; // Added to the default ignores (node_modules, .git, build output, logs)
+  debounceMs?: number; // Wait for changes to settle (default 500)
+  restartOn?: string[]; // Always restart on these; alone, they are the only trigger
+}
+
+export type LimitAction = 'restart' | 'stop' | 'flag';
+
+export const LIMIT_ACTIONS = ['restart', 'stop', 'flag'] as const;
+
+/**
+ * A resource limit a running process went over, and what was done about it
+ */
+export interface LimitBreach {
+  at: string;
+  limit: 'memory' | 'cpu';
+  value: number; // RSS bytes, or average CPU percent over the window
+  threshold: number; // Same unit as value
+  windowMs?: number; // CPU: how long usage stayed above the threshold
+  action: LimitAction;
+  pid?: number;
+  error?: string; // Why the restart or stop did not go through
+}
+
+/**
+ * Logical byte offsets into a process's stdout and stderr logs: bytes
+ * rotated into archives plus the position in the live file, so they stay
+ * valid across rotation
+ */
+export interface LogOffsets {
+  out: number;
+  error: number;
+}
+
+/**
+ * How much log history is kept per stream. A live log over `maxSize` is
+ * moved to an archive (<log>.1 is the newest); archives beyond `maxFiles` or
+ * older than `maxAgeDays` are deleted.
+ */
+export interface LogRetentionConfig {
+  maxSize?: string; // Such as "10M" (default 10M)
+  maxFiles?: number; // Archives kept per stream (default 5)
+  maxAgeDays?: number; // Default 14
+}
+
+// PM2 management state
+export interface ManagedProcessConfig {
+  name: string;
+  script: string;
+  cwd?: string;
+  args?: string[];
+  env?: Record<string, string>; // Wins over envFiles; values may use ${VAR} references
+  envFiles?: string[]; // dotenv files relative to cwd, later files win
+  redactionAllowlist?: string[]; // Sensitive-looking env keys whose values may be shown
+  interpreter?: string;
+  instances?: number;
+  watch?: boolean | WatchConfig;
+  autorestart?: boolean;
+  interactive?: boolean; // Keep stdin open so send-process-input can type into the process
+  backend?: BackendKind; // Overrides the project-wide default backend
+  readiness?: ReadinessConfig;
+  healthChecks?: HealthCheckConfig[];
+  dependsOn?: string[]; // Processes that must be ready before this one starts
+  groups?: string[]; // Tags for bulk start/stop/restart
+  port?: number; // Port the server binds; otherwise read from env[portEnv]
+  portEnv?: string; // Env key carrying the port (default PORT)
+  autoAssignPort?: boolean; // Pick a free port instead of refusing to start on a conflict
+  maxMemory?: string; // RSS limit such as "1.5G" or "800M"
+  maxCpuPercent?: number; // CPU limit (percent of one core) sustained over cpuWindowMs
+  cpuWindowMs?: number; // Default 60s
+  limitAction?: LimitAction; // What to do on a breach (default restart)
+  logRetention?: LogRetentionConfig;
+  logOffsets?: LogOffsets; // Where the logs of the latest start/restart begin
+  rotatedLogBytes?: LogOffsets; // Bytes moved out of the live log files so far
+  assignedPort?: PortAssignment; // Runtime: set while running on an auto-assigned port
+  endpoint?: ProcessEndpoint; // Runtime metadata from the latest start
+  history?: ProcessEvent[]; // Most recent lifecycle events, oldest first
+  limitBreaches?: LimitBreach[]; // Most recent resource limit breaches, oldest first
+}
+
+/**
+ * One execution of a task
+ * - running:     still executing (or the MCP that ran it died, see pid)
+ * - succeeded:   exited with code 0
+ * - failed:      non-zero exit, killed by a signal, or could not be spawned
+ * - timed-out:   killed after running longer than the task's timeout
+ * - interrupted: the MCP that ran it went away before it finished
+ */
+export interface TaskRun {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed' | 'timed-out' | 'interrupted';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  pid?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  outLog: string;
+  errorLog: string;
+}
+
+/**
+ * A one-shot command (build, test suite, migration) that runs to completion
+ * instead of being supervised
+ */
+export interface TaskConfig {
+  name: string;
+  script: string;
+  cwd?: string;
+  args?: string[];
+  env?: Record<string, string>; // Wins over envFiles; values may use ${VAR} references
+  envFiles?: string[]; // dotenv files relative to cwd, later files win
+  interpreter?: string;
+  timeoutMs?: number; // Killed after this long (default 10 minutes)
+  runs?: TaskRun[]; // Most recent runs, oldest first
+}
+
+export interface DevServerState {
+  managedProcesses: Record<string, ManagedProcessConfig>;
+  tasks?: Record<string, TaskConfig>;
+  defaultBackend?: BackendKind;
+  lastSynced?: Date;
+  descriptorSync?: Record<string, string>; // Descriptor entries last applied, by process name
+}
@@ -0,0 +1,45 @@
+import * as linkify from 'linkifyjs';
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '0.0.0.0'];
+
+/**
+ * Helper: find every URL a dev server announced in its logs, local
+ * addresses first. Falls back to a bare "port 1234" mention.
+ */
+export function detectServerUrls(logs: string): string[] {
+  // Use linkifyjs to find all URLs in the logs
+  const links = linkify.find(logs, 'url')
+    .filter(link => /^https?:/.test(link.href))
+    // Clean up the URL (remove trailing slashes)
+    .map(link => link.href.replace(/\/+$/, ''));
+
+  const isLocal = (url: string) => LOCAL_HOSTS.some(host => url.includes(host));
+  const urls = [...new Set([...links.filter(isLocal), ...links.filter(url => !isLocal(url))])];
+
+  if (urls.length > 0) {
+    return urls;
+  }
+
+  // Fallback: look for just port number
+  const portMatch = logs.match(/(?:port|Port|PORT)[\s:]+(\d{4,5})/);
+  if (portMatch) {
+    return [`http://localhost:${portMatch[1]}`];
+  }
+
+  return [];
+}
+
+/**
+ * Helper: port of a URL, including the scheme default when none is given
+ */
+export function getUrlPort(url: string): number | undefined {
+  try {
+    const parsed = new URL(url);
+    if (parsed.port) {
+      return Number(parsed.port);
+    }
+    return parsed.protocol === 'https:' ? 443 : 80;
+  } catch (error) {
+    return undefined;
+  }
+}
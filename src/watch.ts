@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ManagedProcessConfig, WatchConfig } from './types.js';
+
+// Never worth a restart: dependencies, VCS data, build output, caches and logs
+export const DEFAULT_WATCH_IGNORE = [
+  'node_modules',
+  '.git',
+  '.next',
+  '.nuxt',
+  '.svelte-kit',
+  '.turbo',
+  '.cache',
+  '.parcel-cache',
+  'dist',
+  'build',
+  'coverage',
+  '__pycache__',
+  '*.log',
+  // State file plus its temporary and lock siblings, written on every restart
+  '*.the-dev-server-state.json*'
+];
+const DEFAULT_DEBOUNCE_MS = 500;
+// Guard against watching a huge tree because of a missing ignore
+const MAX_WATCHED_DIRECTORIES = 5000;
+
+/**
+ * Called once per debounce window with the changed paths (relative to the
+ * watched directory) that should restart the process
+ */
+export type WatchListener = (name: string, files: string[], root: string) => void;
+
+interface ProcessWatcher {
+  signature: string; // Serialized watch settings, used to detect config changes
+  base: string;
+  watch: WatchConfig;
+  directories: Map<string, fs.FSWatcher>;
+  pending: Set<string>;
+  timer?: NodeJS.Timeout;
+  closed?: boolean; // Set once stopped; directory scans still in flight then bail out
+}
+
+// File watchers live for the MCP session, keyed by "<project key>/<process name>"
+const processWatchers = new Map<string, ProcessWatcher>();
+
+/**
+ * Helper: watch settings of a process; `watch: true` watches everything
+ * under cwd except the default ignores
+ */
+export function getWatchConfig(config: ManagedProcessConfig): WatchConfig | undefined {
+  if (config.watch === true) {
+    return {};
+  }
+  return config.watch || undefined;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" spans any number of directories, a trailing "**" everything
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Helper: gitignore-style match of a relative path. A pattern without a
+ * slash matches any path segment ("node_modules", "*.log", ".env*"); one
+ * with a slash matches the whole path from the watched directory.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalized = pattern.replace(/^\.?\//, '').replace(/\/$/, '');
+  const regex = globToRegExp(normalized);
+  if (!normalized.includes('/')) {
+    return relativePath.split('/').some(segment => regex.test(segment));
+  }
+  return regex.test(relativePath) || relativePath.startsWith(`${normalized}/`);
+}
+
+function isIgnored(relativePath: string, watch: WatchConfig): boolean {
+  return [...DEFAULT_WATCH_IGNORE, ...(watch.ignore || [])].some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Decide whether a changed file restarts the process: ignored paths never
+ * do, `restartOn` files always do, anything else only when it matches
+ * `include` (everything by default, nothing once `restartOn` is given)
+ */
+export function shouldRestart(relativePath: string, watch: WatchConfig): boolean {
+  if (isIgnored(relativePath, watch)) {
+    return false;
+  }
+  if (watch.restartOn?.some(pattern => matchesGlob(relativePath, pattern))) {
+    return true;
+  }
+  const include = watch.include ?? (watch.restartOn ? [] : ['**']);
+  return include.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+function totalWatchedDirectories(): number {
+  let total = 0;
+  for (const watcher of processWatchers.values()) {
+    total += watcher.directories.size;
+  }
+  return total;
+}
+
+function watchDirectory(watcher: ProcessWatcher, directory: string, onChange: (relativePath: string) => void) {
+  const relative = path.relative(watcher.base, directory).split(path.sep).join('/');
+  if (watcher.closed || watcher.directories.has(directory) || (relative && isIgnored(relative, watcher.watch))) {
+    return;
+  }
+  if (totalWatchedDirectories() >= MAX_WATCHED_DIRECTORIES) {
+    console.error(`Not watching ${directory}: over ${MAX_WATCHED_DIRECTORIES} directories watched, add ignore patterns`);
+    return;
+  }
+
+  let handle: fs.FSWatcher;
+  try {
+    handle = fs.watch(directory, (eventType, filename) => {
+      if (!filename) {
+        return;
+      }
+      const changed = path.join(directory, filename.toString());
+      // Start watching directories created after the watcher was set up
+      fs.stat(changed, (error, stats) => {
+        if (!error && stats.isDirectory()) {
+          watchDirectory(watcher, changed, onChange);
+        }
+      });
+      onChange(path.relative(watcher.base, changed).split(path.sep).join('/'));
+    });
+  } catch (error) {
+    // Directory vanished or is unreadable
+    return;
+  }
+  handle.on('error', () => {
+    handle.close();
+    watcher.directories.delete(directory);
+  });
+  // Watching must never keep the MCP process alive on its own
+  handle.unref();
+  watcher.directories.set(directory, handle);
+
+  fs.readdir(directory, { withFileTypes: true }, (error, entries) => {
+    if (error) {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        watchDirectory(watcher, path.join(directory, entry.name), onChange);
+      }
+    }
+  });
+}
+
+function stopWatcher(watcher: ProcessWatcher) {
+  watcher.closed = true;
+  clearTimeout(watcher.timer);
+  for (const handle of watcher.directories.values()) {
+    handle.close();
+  }
+  watcher.directories.clear();
+}
+
+/**
+ * Align file watchers with a project's registry: start watchers for new or
+ * changed watch settings and stop those of removed processes. Watchers of
+ * other projects (`scope` is the project key) are left running.
+ */
+export function syncWatchers(
+  processes: Record<string, ManagedProcessConfig>,
+  scope: string,
+  root: string,
+  listener: WatchListener
+) {
+  for (const [key, watcher] of processWatchers) {
+    if (!key.startsWith(`${scope}/`)) {
+      continue;
+    }
+    const config = processes[key.slice(scope.length + 1)];
+    if (!config || !getWatchConfig(config)) {
+      stopWatcher(watcher);
+      processWatchers.delete(key);
+    }
+  }
+
+  for (const config of Object.values(processes)) {
+    const watch = getWatchConfig(config);
+    if (!watch) {
+      continue;
+    }
+    const key = `${scope}/${config.name}`;
+    const base = path.resolve(root, config.cwd || '.');
+    const signature = JSON.stringify([base, watch]);
+    const existing = processWatchers.get(key);
+    if (existing?.signature === signature) {
+      continue;
+    }
+    if (existing) {
+      stopWatcher(existing);
+    }
+
+    const watcher: ProcessWatcher = { signature, base, watch, directories: new Map(), pending: new Set() };
+    processWatchers.set(key, watcher);
+    watchDirectory(watcher, base, relativePath => {
+      if (!shouldRestart(relativePath, watch)) {
+        return;
+      }
+      watcher.pending.add(relativePath);
+      clearTimeout(watcher.timer);
+      // Editors and formatters write in bursts; restart once they are done
+      watcher.timer = setTimeout(() => {
+        const files = [...watcher.pending];
+        watcher.pending.clear();
+        listener(config.name, files, root);
+      }, watch.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+      watcher.timer.unref();
+    });
+  }
+}